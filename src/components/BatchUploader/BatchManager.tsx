@@ -1,31 +1,278 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { UploadCloud, Plus, Trash2, AlertTriangle, CheckCircle, Play, FileInput, StopCircle, Clock, Upload, ScanEye } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { UploadCloud, Plus, Trash2, AlertTriangle, CheckCircle, Play, FileInput, StopCircle, Clock, Upload, ScanEye, History, X, FileCode, Layers, Camera, RotateCcw } from 'lucide-react';
 import { processImage } from '../../lib/imageProcessor';
-import { extractDataFromImage, uploadToDrive, checkAiAvailability } from '../../services/api';
-import { BatchItem, ExtractedData } from '../../types';
+import { IMAGE_WORKER_COUNT } from '../../lib/imageWorkerPool';
+import { loadBatchItems, saveBatchItems } from '../../lib/batchStore';
+import { applyChaveCheck, dataFromChave, parseChave } from '../../lib/chaveAcesso';
+import { CteXmlDoc, findMatchingXml, isXmlFile, readCteXmlFile } from '../../lib/cteXml';
+import { docKey, findBatchDuplicateIds, findSimilarImages, needsArchiveDecision } from '../../lib/duplicates';
+import { uploadToDrive } from '../../services/api';
+import { checkExtractionAvailability, extractWithFallback, isExtractionQuotaExhausted } from '../../services/extraction';
+import { getStorageBackend } from '../../services/storage';
+import { invalidateSearchCache, searchDocuments } from '../../services/search';
+import { ArchiveCheck, BatchItem, BatchPage, CropQuad, ErrorCode, ExtractedData, GroupedDoc, ProcessedImage, RotationSource } from '../../types';
 import { FileCard } from './FileCard';
 import { ImageZoomModal } from './ImageZoomModal';
+import { CameraCapture } from './CameraCapture';
 import { Button } from '../ui/Button';
-import { convertPdfToJpeg } from '../../utils/pdfConverter';
+import { convertPdfToJpeg, convertPdfToJpegPages } from '../../utils/pdfConverter';
+import { getOutputSettings } from '../../lib/outputProfiles';
+import { getUploadSettings } from '../../lib/uploadSettings';
+import { blobToBase64 } from '../../lib/canvas';
+import { createThumbnail } from '../../lib/imagePipeline';
+import { deletePageImages, getArchiveImage, getPageImage, prunePageImages, putPageImages } from '../../lib/blobStore';
+import { classifyError } from '../../lib/retry';
 
-const MAX_BATCH_SIZE = 150; 
+// Images live in the blob store and the grid shows thumbnails, so state stays small per item
+const MAX_BATCH_SIZE = 500;
 // 3500ms = ~17 requests per minute (Safe margin for 15 RPM free tier)
 const AI_DELAY_MS = 3500; 
 const QUOTA_STORAGE_KEY = 'ai_quota_exceeded_date';
+// "1" = poor photos wait for a retake instead of going to AI
+const HOLD_POOR_IMAGES_KEY = 'hold_poor_images';
+// Our scanner delivers pages sideways: 270 = 90 CCW. Used when orientation detection is unsure.
+const DEFAULT_ROTATION = 270;
+
+// What the card says when an upload fails for good (after the automatic retries)
+const UPLOAD_ERROR_MESSAGES: Record<ErrorCode, string> = {
+  network: "Sem conexão. Tente novamente.",
+  timeout: "O servidor demorou a responder. Tente novamente.",
+  validation: "Envio recusado pelo servidor. Confira os dados.",
+  server: "Erro no servidor do arquivo. Tente novamente.",
+  quota: "Limite de envios atingido. Aguarde e tente novamente.",
+  unknown: "Erro no envio. Tente novamente."
+};
+
+// New pages carry no rotation (detected when processed) and no thumbnail (made in the background)
+const createPage = (file: File, sourcePdfId?: string): BatchPage => ({
+  id: crypto.randomUUID(),
+  file,
+  sourcePdfId
+});
+
+/**
+ * Rotation to bake into a page: the operator's choice if any, else the detected orientation,
+ * else the scanner default when detection is not confident.
+ */
+const resolveRotation = (rotation: number | undefined, processed: ProcessedImage): { rotation: number; source: RotationSource } => {
+  if (rotation !== undefined) return { rotation, source: 'manual' };
+  return processed.detectedRotation !== undefined
+    ? { rotation: processed.detectedRotation, source: 'auto' }
+    : { rotation: DEFAULT_ROTATION, source: 'default' };
+};
+
+// Helper: Turn a whole item (page 1 + its extra pages) into pages of another document
+const itemToPages = (item: BatchItem): BatchPage[] => [
+  {
+    id: item.id,
+    file: item.file,
+    previewUrl: item.previewUrl === 'error' ? undefined : item.previewUrl,
+    imagesStored: item.imagesStored,
+    rotation: item.rotation,
+    imageHash: item.imageHash
+  },
+  ...(item.extraPages || [])
+];
+
+// Image work for one queued item, done ahead of its turn while earlier items wait on the AI
+interface PreparedImages {
+  processed: ProcessedImage;
+  orientation: { rotation: number; source: RotationSource };
+  crop?: CropQuad;
+  cropSource?: BatchItem['cropSource'];
+  extraPages?: BatchPage[];
+  pageImages: Map<string, ProcessedImage>; // Newly processed pages by page id, stored when applied
+}
+
+/**
+ * Converts, rotates, crops and encodes page 1 and the extra pages of an item.
+ * Leaves React state alone: the queue applies the result, or discards it if the item changed.
+ */
+const prepareItemImages = async (item: BatchItem): Promise<PreparedImages> => {
+  let fileToProcess = item.file;
+  let extraPages = item.extraPages;
+  // When the original PDF is archived, rendered pages only need the AI encoding
+  const settings = getOutputSettings();
+  const pdfSettings = settings.keepOriginalPdf ? { ...settings, archive: settings.ai } : settings;
+  if (fileToProcess.type === 'application/pdf') {
+    try {
+      if (extraPages) {
+        // Pages were already split by the preview generator
+        fileToProcess = await convertPdfToJpeg(fileToProcess);
+      } else {
+        const [firstPage, ...otherPages] = await convertPdfToJpegPages(fileToProcess);
+        fileToProcess = firstPage;
+        extraPages = otherPages.map(page => createPage(page, item.id));
+      }
+    } catch (e) { throw new Error("Erro conv. PDF"); }
+  }
+
+  // Rotation: the operator's, else detected from the text lines, else the scanner default.
+  // Perspective crop: sheet edges detected once for photos; corners set by the operator win.
+  // Both detections run in the image worker.
+  const detectCrop = !item.cropSource && item.file.type.startsWith('image/');
+  const processed = await processImage(
+    fileToProcess,
+    item.rotation ?? DEFAULT_ROTATION,
+    detectCrop ? undefined : item.crop,
+    item.file.type === 'application/pdf' ? pdfSettings : settings,
+    { rotation: item.rotation === undefined, crop: detectCrop }
+  );
+  const orientation = resolveRotation(item.rotation, processed);
+  const crop = detectCrop ? processed.detectedCrop : item.crop;
+  const cropSource = detectCrop ? 'auto' : item.cropSource;
+  const pageImages = new Map([[item.id, processed]]);
+
+  // Extra pages: same treatment, each with its own rotation (already baked pages are kept)
+  let processedPages: BatchPage[] | undefined;
+  if (extraPages) {
+    processedPages = [];
+    for (const page of extraPages) {
+      if (page.imagesStored) {
+        processedPages.push(page);
+        continue;
+      }
+      // Pages merged from another item may still be the original PDF
+      const pageFile = page.file.type === 'application/pdf' ? await convertPdfToJpeg(page.file) : page.file;
+      const fromPdf = page.sourcePdfId || page.file.type === 'application/pdf';
+      const processedPage = await processImage(
+        pageFile,
+        page.rotation ?? DEFAULT_ROTATION,
+        undefined,
+        fromPdf ? pdfSettings : settings,
+        { rotation: page.rotation === undefined, crop: page.file.type.startsWith('image/') }
+      );
+      pageImages.set(page.id, processedPage);
+      processedPages.push({
+        ...page,
+        imagesStored: true,
+        rotation: 0,
+        appliedRotation: resolveRotation(page.rotation, processedPage).rotation,
+        imageHash: processedPage.imageHash
+      });
+    }
+  }
+
+  return { processed, orientation, crop, cropSource, extraPages: processedPages, pageImages };
+};
+
+// Helper: Inputs that decide the processed images; if any changed, a prepared result is stale
+const isSameImageInput = (a: BatchItem, b: BatchItem): boolean =>
+  a.file === b.file && a.rotation === b.rotation && a.crop === b.crop && a.cropSource === b.cropSource && a.extraPages === b.extraPages;
+
+// Helper: Release the blob previews an update stops showing
+const revokeReplacedUrls = (before: BatchItem, after: BatchItem) => {
+  const kept = new Set([after.previewUrl, ...(after.extraPages || []).map(p => p.previewUrl)]);
+  [before.previewUrl, ...(before.extraPages || []).map(p => p.previewUrl)].forEach(url => {
+    if (url?.startsWith('blob:') && !kept.has(url)) URL.revokeObjectURL(url);
+  });
+};
+
+// Helper: Drop the processed images of an uploaded item (its thumbnails stay on the card)
+const withoutStoredImages = (item: BatchItem): BatchItem => {
+  deletePageImages(itemToPages(item).filter(page => page.imagesStored).map(page => page.id));
+  return { ...item, imagesStored: false, extraPages: item.extraPages?.map(page => ({ ...page, imagesStored: false })) };
+};
+
+// Helper: Release every blob preview held by an item (page 1 and extra pages)
+const revokeItemUrls = (item: BatchItem) => {
+  [item.previewUrl, ...(item.extraPages || []).map(p => p.previewUrl)].forEach(url => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  });
+};
+
+/**
+ * Sends an item back to the queue to be processed again from its original file:
+ * original preview, and the rotation that had been baked in.
+ */
+const requeueFromOriginal = (item: BatchItem): BatchItem => {
+  if (item.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(item.previewUrl);
+  return {
+    ...item,
+    imagesStored: false,
+    imageHash: undefined,
+    // The background generator makes a thumbnail of the original again
+    previewUrl: undefined,
+    rotation: item.appliedRotation ?? item.rotation,
+    status: 'queued',
+    errorMessage: undefined,
+    errorCode: undefined,
+    // New images: a half-sent upload restarts from page 1 and the archive is checked again
+    uploadedPageCount: undefined,
+    archiveCheck: undefined,
+    duplicateAction: undefined
+  };
+};
+
+// Statuses in which a matching XML may overwrite the item data
+const XML_MATCHABLE_STATUS: BatchItem['status'][] = ['queued', 'paused', 'ready', 'error'];
+// Statuses in which items may be selected and merged into one document
+const GROUPABLE_STATUS: BatchItem['status'][] = ['queued', 'paused', 'ready', 'error'];
+
+/**
+ * Fills an item from its CT-e XML (if one matches). Processed items go straight to 'ready'.
+ * Returns the same object when nothing changes so persistence can skip it.
+ */
+const applyXmlMatch = (item: BatchItem, xmlDocs: CteXmlDoc[]): BatchItem => {
+  if (!XML_MATCHABLE_STATUS.includes(item.status)) return item;
+
+  const match = findMatchingXml(xmlDocs, item.data, item.file.name);
+  if (!match) return item;
+  if (item.data.source === 'xml' && item.data.chaveAcesso === match.data.chaveAcesso) return item;
+
+  return {
+    ...item,
+    data: { ...match.data },
+    status: item.imagesStored ? 'ready' : (item.status === 'error' ? 'queued' : item.status),
+    errorMessage: undefined,
+    errorCode: undefined
+  };
+};
 
 export const BatchManager: React.FC = () => {
   const [items, setItems] = useState<BatchItem[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [statusMessage, setStatusMessage] = useState("");
-  const [zoomState, setZoomState] = useState<{url: string, rotation: number} | null>(null);
+  // cropItemId: the modal shows the original photo of that item in the four-corner crop editor
+  const [zoomState, setZoomState] = useState<{url: string, rotation: number, cropItemId?: string} | null>(null);
+  // Ordered: the first selected item becomes page 1 (the one read by AI)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   
   // New State: Global Manual Mode
   const [isManualMode, setIsManualMode] = useState(false);
+
+  // Local persistence (IndexedDB): nothing is written until the previous queue is restored
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [restoredCount, setRestoredCount] = useState(0);
+  const persistedRef = useRef<Map<string, BatchItem>>(new Map());
+
+  // CT-e XMLs dropped in the batch: used to fill the matching scanned documents without AI
+  const [xmlDocs, setXmlDocs] = useState<CteXmlDoc[]>([]);
+  const xmlDocsRef = useRef<CteXmlDoc[]>([]);
+
+  // Archived documents sharing a número with the batch (other séries, similar números), with
+  // their page hashes, to spot a photo already sent under another número/série
+  const [archivedDocs, setArchivedDocs] = useState<GroupedDoc[]>([]);
+  // Archive lookups already made this session, by número (only new números are looked up)
+  const archivedByNumeroRef = useRef(new Map<string, GroupedDoc[]>());
+  
+  // In-app camera (shots go straight into the batch)
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const cameraShotsRef = useRef(0);
+
+  // Quality gate before AI (per browser)
+  const [holdPoorImages, setHoldPoorImages] = useState(() => localStorage.getItem(HOLD_POOR_IMAGES_KEY) === '1');
+  const holdPoorImagesRef = useRef(holdPoorImages);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Single-photo picker used to retake the image of one item
+  const retakeInputRef = useRef<HTMLInputElement>(null);
+  const retakeTargetRef = useRef<string | null>(null);
   const abortRef = useRef<boolean>(false);
   const itemsRef = useRef<BatchItem[]>([]);
+  // Page ids whose thumbnail is being made right now
+  const thumbnailJobsRef = useRef<Set<string>>(new Set());
   
   // Persistent Flag: If Quota is hit, we skip AI for ALL subsequent items in the loop
   const aiQuotaExceededRef = useRef(false);
@@ -47,6 +294,61 @@ export const BatchManager: React.FC = () => {
     }
   }, []);
 
+  // --- RESTORE: RELOAD QUEUE SAVED BEFORE A RELOAD/CRASH ---
+  useEffect(() => {
+    let cancelled = false;
+
+    loadBatchItems()
+      .then(restored => {
+        if (cancelled) return;
+        // Images left over from an older session: pruned once, before anything is processed
+        prunePageImages(new Set([...restored, ...itemsRef.current].flatMap(item => itemToPages(item).map(page => page.id))));
+        if (restored.length === 0) return;
+        setItems(prev => [...restored, ...prev.filter(i => !restored.some(r => r.id === i.id))]);
+        setRestoredCount(restored.length);
+      })
+      .catch(err => console.warn("[Batch] Could not restore saved queue:", err))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // --- PERSIST: WRITE ONLY ITEMS THAT CHANGED (by reference) ---
+  useEffect(() => {
+    if (isRestoring) return;
+
+    const timer = setTimeout(() => {
+      const previous = persistedRef.current;
+      const next = new Map<string, BatchItem>();
+      const changed: { item: BatchItem; position: number }[] = [];
+
+      items.forEach((item, position) => {
+        next.set(item.id, item);
+        if (previous.get(item.id) !== item) changed.push({ item, position });
+      });
+      const removedIds: string[] = [];
+      previous.forEach((_, id) => {
+        if (!next.has(id)) removedIds.push(id);
+      });
+
+      persistedRef.current = next;
+
+      // Processed images of removed items. Pages merged into another item keep theirs; pages being
+      // processed right now are not in state yet, so nothing is pruned against the live list here.
+      if (removedIds.length > 0) {
+          const livePageIds = new Set(items.flatMap(item => itemToPages(item).map(page => page.id)));
+          deletePageImages(removedIds
+              .flatMap(id => itemToPages(previous.get(id)!).map(page => page.id))
+              .filter(pageId => !livePageIds.has(pageId)));
+      }
+      saveBatchItems(changed, removedIds).catch(err => console.warn("[Batch] Could not save queue:", err));
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [items, isRestoring]);
+
   // Sync Ref
   useEffect(() => {
     itemsRef.current = items;
@@ -55,26 +357,72 @@ export const BatchManager: React.FC = () => {
   // --- STATS ---
   const successCount = items.filter(i => i.status === 'success').length;
   const errorCount = items.filter(i => i.status === 'error').length;
+  const failedUploadCount = items.filter(i => i.status === 'ready' && i.errorCode).length;
   const queuedCount = items.filter(i => i.status === 'queued').length;
   const readyCount = items.filter(i => i.status === 'ready').length; // Analyzed, waiting upload
+  const unmatchedXmlDocs = xmlDocs.filter(doc => !items.some(i =>
+      i.data.source === 'xml' && i.data.numeroDoc === doc.data.numeroDoc && i.data.serie === doc.data.serie
+  ));
   const isBusy = isAnalyzing || isUploading;
+  const activeSelection = selectedIds.filter(id => items.some(i => i.id === id));
+  // Sent items are left out: a re-scan of those is caught by the archive lookup instead
+  const batchDuplicateIds = findBatchDuplicateIds(items.filter(i => i.status !== 'success'));
+  // Pairwise hash comparison: only redone when a hash or a número/série changes, not per render
+  const similarityKey = items
+      .map(i => [i.id, i.file.name, i.data.numeroDoc, i.data.serie, i.imageHash, ...(i.extraPages || []).map(p => p.imageHash)].join(','))
+      .join('|');
+  const similarImages = useMemo(() => findSimilarImages(items, archivedDocs), [similarityKey, archivedDocs]);
 
-  // --- BACKGROUND PDF PREVIEW GENERATOR ---
+  // --- BACKGROUND THUMBNAIL GENERATOR (one page at a time) ---
   useEffect(() => {
-    const generateNextPreview = async () => {
-        const itemNeedsPreview = items.find(i => !i.previewUrl && i.file.type === 'application/pdf');
-        if (itemNeedsPreview) {
-            try {
-                const jpegFile = await convertPdfToJpeg(itemNeedsPreview.file);
-                const previewUrl = URL.createObjectURL(jpegFile);
-                setItems(prev => prev.map(i => i.id === itemNeedsPreview.id ? { ...i, previewUrl } : i));
-            } catch (err) {
-                console.error("Failed to generate preview", err);
-                setItems(prev => prev.map(i => i.id === itemNeedsPreview.id ? { ...i, previewUrl: 'error' } : i));
+    // Helper: Set a page thumbnail unless one arrived meanwhile (then the new URL is released)
+    const applyThumbnail = (itemId: string, pageId: string, previewUrl: string, extraPages?: BatchPage[]) => {
+        setItems(prev => prev.map(i => {
+            if (i.id !== itemId) return i;
+            if (pageId === itemId) {
+                if (i.previewUrl) {
+                    if (previewUrl.startsWith('blob:')) URL.revokeObjectURL(previewUrl);
+                    return i;
+                }
+                return { ...i, previewUrl, extraPages: i.extraPages || extraPages };
             }
+            return { ...i, extraPages: i.extraPages?.map(p => p.id === pageId && !p.previewUrl ? { ...p, previewUrl } : p) };
+        }));
+    };
+
+    const generateNextThumbnail = async () => {
+        const jobs = thumbnailJobsRef.current;
+        const item = items.find(i => !i.previewUrl && !jobs.has(i.id));
+        const owner = item || items.find(i => i.extraPages?.some(p => !p.previewUrl && !jobs.has(p.id)));
+        const page = item ? undefined : owner?.extraPages?.find(p => !p.previewUrl && !jobs.has(p.id));
+        if (!owner) return;
+
+        const pageId = page ? page.id : owner.id;
+        const file = page ? page.file : owner.file;
+        jobs.add(pageId);
+        try {
+            // Processed pages show what was processed; the others, the original file
+            let source: Blob | undefined = (page || owner).imagesStored ? await getPageImage(pageId, 'ai') : undefined;
+            let extraPages: BatchPage[] | undefined;
+            if (!source && file.type === 'application/pdf') {
+                if (page || owner.extraPages) {
+                    source = await convertPdfToJpeg(file);
+                } else {
+                    // Render every page: page 1 gives the thumbnail, the rest become extra pages
+                    const [firstPage, ...otherPages] = await convertPdfToJpegPages(file);
+                    source = firstPage;
+                    extraPages = otherPages.map(p => createPage(p, owner.id));
+                }
+            }
+            applyThumbnail(owner.id, pageId, URL.createObjectURL(await createThumbnail(source || file)), extraPages);
+        } catch (err) {
+            console.error("Failed to generate thumbnail", err);
+            applyThumbnail(owner.id, pageId, 'error');
+        } finally {
+            jobs.delete(pageId);
         }
     };
-    const timer = setTimeout(generateNextPreview, 100);
+    const timer = setTimeout(generateNextThumbnail, 100);
     return () => clearTimeout(timer);
   }, [items]);
 
@@ -90,43 +438,32 @@ export const BatchManager: React.FC = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isBusy]);
 
-  // Cleanup
+  // Cleanup: running loops stop at their next check instead of working for an unmounted batch
   useEffect(() => {
     return () => {
-      itemsRef.current.forEach(item => {
-        if (item.previewUrl?.startsWith('blob:') && item.previewUrl !== 'error') {
-          URL.revokeObjectURL(item.previewUrl);
-        }
-      });
+      abortRef.current = true;
+      itemsRef.current.forEach(revokeItemUrls);
     };
   }, []);
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
-    const filesArray: File[] = Array.from(e.target.files);
+    const selectedFiles: File[] = Array.from(e.target.files);
+    const xmlFiles = selectedFiles.filter(isXmlFile);
+    const filesArray = selectedFiles.filter(file => !isXmlFile(file));
     
     if (items.length + filesArray.length > MAX_BATCH_SIZE) {
       alert(`Limite de segurança: ${MAX_BATCH_SIZE} arquivos por lote.`);
       return;
     }
 
-    const newItems: BatchItem[] = filesArray.map(file => {
-      let instantPreview = undefined;
-      if (file.type.startsWith('image/')) {
-        instantPreview = URL.createObjectURL(file);
-      }
-      return {
-        id: crypto.randomUUID(),
-        file,
-        previewUrl: instantPreview, 
-        rotation: 270, // Default rotation (90 CCW)
-        data: { numeroDoc: '', serie: '', dataEmissao: '' },
-        status: 'queued'
-      };
-    });
+    if (xmlFiles.length > 0) {
+      await importXmlFiles(xmlFiles);
+    }
 
-    setItems(prev => [...prev, ...newItems]);
+    addFiles(filesArray);
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (filesArray.length === 0) return;
     
     // Auto-start analysis if not busy
     setTimeout(() => {
@@ -136,6 +473,76 @@ export const BatchManager: React.FC = () => {
     }, 500);
   };
 
+  // Helper: New queued items for image/PDF files (shared by the file picker and the camera)
+  const addFiles = (files: File[]) => {
+    // No preview yet: the background generator makes a thumbnail for each
+    const newItems: BatchItem[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      data: { numeroDoc: '', serie: '', dataEmissao: '' },
+      status: 'queued' as const
+    })).map(item => applyXmlMatch(item, xmlDocsRef.current));
+
+    setItems(prev => [...prev, ...newItems]);
+  };
+
+  // --- CAMERA CAPTURE ---
+  const handleCameraShot = (file: File) => {
+    if (itemsRef.current.length >= MAX_BATCH_SIZE) {
+      setIsCameraOpen(false);
+      alert(`Limite de segurança: ${MAX_BATCH_SIZE} arquivos por lote.`);
+      return;
+    }
+    cameraShotsRef.current++;
+    addFiles([file]);
+  };
+
+  // Analysis waits until the camera is closed so it does not compete with the live preview
+  const handleCloseCamera = () => {
+    setIsCameraOpen(false);
+    if (cameraShotsRef.current === 0) return;
+    cameraShotsRef.current = 0;
+    setTimeout(() => {
+        if (!abortRef.current && !isBusy) {
+            startAnalysisQueue();
+        }
+    }, 500);
+  };
+
+  // --- XML IMPORT: PARSE, KEEP AND MATCH AGAINST THE CURRENT BATCH ---
+  const importXmlFiles = async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(readCteXmlFile));
+    const parsed: CteXmlDoc[] = [];
+    const failed: string[] = [];
+
+    results.forEach((result, idx) => {
+      if (result.status === 'fulfilled') parsed.push(result.value);
+      else failed.push(files[idx].name);
+    });
+
+    if (failed.length > 0) {
+      alert(`XML não reconhecido como CT-e: ${failed.join(', ')}`);
+    }
+    if (parsed.length === 0) return;
+
+    // A re-imported XML replaces the previous copy of the same document
+    const merged = [
+      ...xmlDocsRef.current.filter(doc => !parsed.some(p =>
+          p.data.numeroDoc === doc.data.numeroDoc && p.data.serie === doc.data.serie
+      )),
+      ...parsed
+    ];
+    xmlDocsRef.current = merged;
+    setXmlDocs(merged);
+    setItems(prev => prev.map(item => applyXmlMatch(item, merged)));
+  };
+
+  // Helper: Authorised XML data wins over anything read from the image
+  const resolveWithXml = (data: ExtractedData, fileName: string): ExtractedData => {
+    const match = findMatchingXml(xmlDocsRef.current, data, fileName);
+    return match ? { ...match.data } : data;
+  };
+
   const handleQuotaExceeded = () => {
       aiQuotaExceededRef.current = true;
       setIsManualMode(true);
@@ -155,12 +562,15 @@ export const BatchManager: React.FC = () => {
     // Only check if we haven't checked yet AND aren't already in manual mode
     if (!hasCheckedInitialRef.current && !aiQuotaExceededRef.current) {
          setStatusMessage("Verificando disponibilidade da IA...");
-         const isAvailable = await checkAiAvailability();
+         const isAvailable = await checkExtractionAvailability();
          hasCheckedInitialRef.current = true;
          
-         if (!isAvailable) {
+         if (!isAvailable && isExtractionQuotaExhausted()) {
              handleQuotaExceeded();
              // We continue execution, but the loop below will respect the flag and skip AI
+         } else if (!isAvailable) {
+             // Unavailable for another reason (no key, offline): items fail this run, probe again next run
+             hasCheckedInitialRef.current = false;
          }
     }
 
@@ -173,12 +583,31 @@ export const BatchManager: React.FC = () => {
 
     const total = queueIds.length;
 
+    // Image work runs ahead in the worker pool; the AI calls below stay one at a time
+    const prepared = new Map<string, { item: BatchItem; promise: Promise<PreparedImages> }>();
+    const prefetchFrom = (index: number) => {
+        for (let j = index; j < Math.min(total, index + IMAGE_WORKER_COUNT); j++) {
+            const item = itemsRef.current.find(x => x.id === queueIds[j]);
+            if (!item || item.status === 'paused' || prepared.has(item.id)) continue;
+            const promise = prepareItemImages(item);
+            promise.catch(() => {}); // Reported when the item's turn comes
+            prepared.set(item.id, { item, promise });
+        }
+    };
+    const takePrepared = (item: BatchItem): Promise<PreparedImages> => {
+        const entry = prepared.get(item.id);
+        prepared.delete(item.id);
+        return entry && isSameImageInput(entry.item, item) ? entry.promise : prepareItemImages(item);
+    };
+
     for (let i = 0; i < total; i++) {
         if (abortRef.current) {
             setStatusMessage("Análise pausada.");
             break;
         }
 
+        prefetchFrom(i);
+
         const id = queueIds[i];
         
         // Check Status (User might have paused SPECIFIC item mid-loop)
@@ -192,28 +621,34 @@ export const BatchManager: React.FC = () => {
             setStatusMessage(`Item ${i + 1}/${total}: Tratando imagem...`);
             updateItemStatus(id, 'processing_image');
             
-            let fileToProcess = currentItem.file;
-            if (fileToProcess.type === 'application/pdf') {
-                try {
-                    fileToProcess = await convertPdfToJpeg(fileToProcess);
-                } catch (e) { throw new Error("Erro conv. PDF"); }
-            }
+            const { processed, orientation, crop, cropSource, extraPages, pageImages } = await takePrepared(currentItem);
 
-            // FORCE ROTATION 270 (90 CCW) if not explicitly set to something else by user
-            const rotationToApply = currentItem.rotation ?? 270;
-
-            const processed = await processImage(fileToProcess, rotationToApply);
-            
-            // Revoke old blob to save memory
-            if (currentItem.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(currentItem.previewUrl);
+            // Full images go to the blob store; React state only holds thumbnails
+            await Promise.all(Array.from(pageImages, ([pageId, image]) =>
+                putPageImages(pageId, { ai: image.blob, archive: image.archiveBlob })
+            ));
+            const thumbs = new Map(Array.from(pageImages, ([pageId, image]) => [pageId, URL.createObjectURL(image.thumbBlob)]));
 
             // Update State with Processed Image (Baking the rotation)
-            setItems(prev => prev.map(item => item.id === id ? {
-                ...item,
-                base64: processed.base64,
-                previewUrl: processed.previewUrl,
-                rotation: 0 // Reset visual rotation since image is baked
-            } : item));
+            setItems(prev => prev.map(item => {
+                if (item.id !== id) return item;
+                const next: BatchItem = {
+                    ...item,
+                    imagesStored: true,
+                    uploadedPageCount: undefined, // Re-processed pages are all sent again
+                    previewUrl: thumbs.get(id),
+                    rotation: 0, // Reset visual rotation since image is baked
+                    appliedRotation: orientation.rotation,
+                    rotationSource: orientation.source,
+                    crop,
+                    cropSource,
+                    imageHash: processed.imageHash,
+                    quality: processed.quality,
+                    extraPages: extraPages?.map(page => thumbs.has(page.id) ? { ...page, previewUrl: thumbs.get(page.id) } : page)
+                };
+                revokeReplacedUrls(item, next);
+                return next;
+            }));
 
             // --- PAUSE CHECK POINT ---
             const freshItem = itemsRef.current.find(x => x.id === id);
@@ -222,19 +657,49 @@ export const BatchManager: React.FC = () => {
                  continue;
             }
 
-            // 2. CHECK QUOTA FLAG
+            const isManualDataFilled = currentItem.data.numeroDoc && currentItem.data.dataEmissao && currentItem.data.serie;
+
+            // 2. LOCAL BARCODE (free): a validated access key skips the AI call entirely
+            const chaveInfo = processed.barcodeChave ? parseChave(processed.barcodeChave) : null;
+            if (chaveInfo) {
+                const barcodeData = isManualDataFilled
+                    ? applyChaveCheck({ ...currentItem.data, chaveAcesso: chaveInfo.chave })
+                    : dataFromChave(chaveInfo);
+
+                setItems(prev => prev.map(item => item.id === id ? {
+                    ...item,
+                    status: 'ready',
+                    data: resolveWithXml(barcodeData, currentItem.file.name),
+                    errorMessage: undefined,
+                    errorCode: undefined
+                } : item));
+                continue;
+            }
+
+            // 3. QUALITY GATE (optional): a poor photo waits for a retake instead of spending an AI call
+            const isPoorImage = processed.quality?.level === 'poor';
+            if (holdPoorImagesRef.current && isPoorImage && !currentItem.qualityOverride && !isManualDataFilled) {
+                setItems(prev => prev.map(item => item.id === id ? {
+                    ...item,
+                    status: 'paused',
+                    heldForQuality: true
+                } : item));
+                continue;
+            }
+
+            // 4. CHECK QUOTA FLAG
             // If quota was already exceeded (either from Probe or previous error), SKIP AI
             if (aiQuotaExceededRef.current) {
                 setItems(prev => prev.map(item => item.id === id ? {
                     ...item,
                     status: 'error',
                     errorMessage: "Cota de IA excedida. Preencha manualmente.",
+                    errorCode: 'quota',
                 } : item));
                 continue; // Move to next item immediately
             }
 
-            // 3. AI Analysis (If quota permits)
-            const isManualDataFilled = currentItem.data.numeroDoc && currentItem.data.dataEmissao && currentItem.data.serie;
+            // 5. AI Analysis (If quota permits) - fallback when the barcode could not be read
             let extractedData = currentItem.data;
 
             if (!isManualDataFilled) {
@@ -244,23 +709,26 @@ export const BatchManager: React.FC = () => {
                 // Artificial Delay for Rate Limiting (only if not skipping)
                 if (i > 0) await new Promise(r => setTimeout(r, AI_DELAY_MS));
 
-                extractedData = await extractDataFromImage(processed.base64);
+                // Fallback chain (Gemini -> OCR local by default); throws "Cota" only when all are out
+                extractedData = await extractWithFallback(await blobToBase64(processed.blob));
             }
 
-            // 4. Mark as READY (Orange)
+            // 6. Mark as READY (Orange)
             setItems(prev => prev.map(item => item.id === id ? {
                 ...item,
                 status: 'ready', // Orange State
-                data: extractedData,
-                errorMessage: undefined
+                data: resolveWithXml(extractedData, currentItem.file.name),
+                errorMessage: undefined,
+                errorCode: undefined
             } : item));
 
         } catch (err: any) {
             const errorMsg = err.message || "Erro na análise";
+            const errorCode = classifyError(err);
             console.error(`Error processing item ${id}:`, errorMsg);
             
             // Check if it's the Quota error happened DURING processing
-            if (errorMsg.includes("Cota")) {
+            if (errorCode === 'quota') {
                 handleQuotaExceeded();
             }
 
@@ -268,6 +736,7 @@ export const BatchManager: React.FC = () => {
                 ...item,
                 status: 'error',
                 errorMessage: errorMsg,
+                errorCode,
             } : item));
             
             // Minimal delay on error to not freeze UI, but proceed fast
@@ -277,69 +746,218 @@ export const BatchManager: React.FC = () => {
 
     setIsAnalyzing(false);
     setStatusMessage("Processamento concluído.");
+
+    // Not awaited: the comparison only feeds a warning on the cards
+    refreshArchivedDocs();
   };
 
   // --- CORE: UPLOAD QUEUE (Ready -> Cloud) ---
-  const handleUploadAllReady = async () => {
+  const handleUploadAllReady = () => uploadItems(itemsRef.current.filter(i => i.status === 'ready').map(i => i.id));
+
+  const uploadItems = async (candidateIds: string[]) => {
       if (isBusy) return;
       
       setIsUploading(true);
       abortRef.current = false;
-      
-      const readyIds = itemsRef.current
-        .filter(i => i.status === 'ready')
-        .map(i => i.id);
-        
-      const total = readyIds.length;
-      if (total === 0) {
+
+      if (candidateIds.length === 0) {
           setIsUploading(false);
           return;
       }
 
-      for (let i = 0; i < total; i++) {
-          if (abortRef.current) break;
-          
-          const id = readyIds[i];
+      setStatusMessage("Verificando duplicados no arquivo...");
+      const checks = await checkArchiveDuplicates(candidateIds);
+
+      // Incomplete (e.g. a barcode read still missing the day), repeated in the batch or
+      // already archived: wait for the operator
+      const batchDuplicates = findBatchDuplicateIds(itemsRef.current.filter(i => i.status !== 'success'));
+      const readyIds = candidateIds.filter(id => {
           const item = itemsRef.current.find(x => x.id === id);
-          if (!item || item.status === 'paused') continue;
+          if (!item || batchDuplicates.has(id)) return false;
+          if (!item.data.numeroDoc || !item.data.dataEmissao || !item.data.serie) return false;
+          return !needsArchiveDecision({ ...item, archiveCheck: checks.get(id) ?? item.archiveCheck });
+      });
+      const heldBack = candidateIds.length - readyIds.length;
+
+      const total = readyIds.length;
+      const { concurrency } = getUploadSettings();
+      let next = 0;
+      let finished = 0;
+
+      // Each lane takes the next id until the list ends or the queue is stopped
+      const runLane = async () => {
+          while (next < total && !abortRef.current) {
+              const id = readyIds[next++];
+              const item = itemsRef.current.find(x => x.id === id);
+              if (!item || item.status === 'paused') continue;
+
+              try {
+                  updateItemStatus(id, 'uploading');
 
-          try {
-              setStatusMessage(`Enviando ${i + 1}/${total}: CTE ${item.data.numeroDoc}...`);
-              updateItemStatus(id, 'uploading');
+                  await uploadItemPages(item);
 
-              const [dia, mes, ano] = item.data.dataEmissao.includes('/') 
-                ? item.data.dataEmissao.split('/') 
-                : ['', '', ''];
+                  setItems(prev => prev.map(x => x.id === id ? {
+                      ...withoutStoredImages(x),
+                      status: 'success',
+                      errorMessage: undefined,
+                      errorCode: undefined,
+                      uploadProgress: undefined,
+                      data: { ...x.data, needsReview: false }
+                  } : x));
 
+              } catch (err: any) {
+                  // Transient failures were already retried by uploadToDrive
+                  const errorCode = classifyError(err);
+                  setItems(prev => prev.map(x => x.id === id ? {
+                      ...x,
+                      status: 'ready', // Keep ready so they can try again
+                      errorMessage: UPLOAD_ERROR_MESSAGES[errorCode],
+                      errorCode,
+                      uploadProgress: undefined
+                  } : x));
+              }
+
+              finished++;
+              setStatusMessage(`Enviando: ${finished}/${total} concluído(s)...`);
+          }
+      };
+
+      setStatusMessage(`Enviando ${total} item(s), ${Math.min(concurrency, total)} por vez...`);
+      await Promise.all(Array.from({ length: Math.min(concurrency, total) }, runLane));
+      
+      setIsUploading(false);
+      setStatusMessage(heldBack > 0
+          ? `Envio finalizado. ${heldBack} item(s) incompleto(s) ou duplicado(s) aguardando revisão.`
+          : "Envio finalizado.");
+  };
+
+  // Archived copies of the batch's números (one uncached lookup per número not seen before).
+  // Failed lookups are simply left out and tried again next time: the comparison only feeds a warning.
+  const refreshArchivedDocs = async () => {
+      const known = archivedByNumeroRef.current;
+      const numeros = [...new Set<string>(itemsRef.current
+          .filter(i => i.data.numeroDoc && i.imageHash)
+          .map(i => i.data.numeroDoc.replace(/^0+/, '')))];
+
+      const pending = numeros.filter(numero => !known.has(numero));
+      if (pending.length === 0) return;
+      for (const numero of pending) {
+          // Not cached: a "not found" stored now would answer the search screen after the upload
+          const response = await searchDocuments(numero, {}, { cache: 'no-store' });
+          if (response.status !== 'error') known.set(numero, response.docs);
+      }
+
+      const found = new Map<string, GroupedDoc>();
+      numeros.forEach(numero => (known.get(numero) || []).forEach(doc => found.set(`${doc.id}|${doc.serie}`, doc)));
+      setArchivedDocs([...found.values()]);
+  };
+
+  /**
+   * Looks up each item's número/série in the archive (one request per document) and
+   * stores the result on the item. Lookup failures never block the upload.
+   */
+  const checkArchiveDuplicates = async (ids: string[]): Promise<Map<string, ArchiveCheck>> => {
+      const checks = new Map<string, ArchiveCheck>();
+      const byKey = new Map<string, ArchiveCheck>();
+
+      for (const id of ids) {
+          const item = itemsRef.current.find(x => x.id === id);
+          // Resuming a half-sent upload: the archived pages are this item's own
+          if (!item || !item.data.numeroDoc || item.uploadedPageCount) continue;
+
+          const key = docKey(item.data);
+          if (!byKey.has(key)) {
+              try {
+                  const { docs } = await getStorageBackend().search(item.data.numeroDoc);
+                  const [numero, serie] = key.split('|');
+                  const existing = docs.find(d =>
+                      d.id.replace(/^0+/, '') === numero && d.serie.replace(/^0+/, '') === serie
+                  );
+                  byKey.set(key, { key, existingPages: existing ? existing.pages.length : 0 });
+              } catch (err) {
+                  console.warn(`[Duplicados] Falha ao consultar ${item.data.numeroDoc}:`, err);
+                  continue;
+              }
+          }
+          checks.set(id, byKey.get(key)!);
+      }
+
+      setItems(prev => prev.map(x => checks.has(x.id) ? { ...x, archiveCheck: checks.get(x.id) } : x));
+      return checks;
+  };
+
+  // Sends page 1 and every extra page under the same número/série.
+  // Pages already sent by a previous (failed) attempt are skipped.
+  const uploadItemPages = async (item: BatchItem) => {
+      const [dia, mes, ano] = item.data.dataEmissao.includes('/') 
+        ? item.data.dataEmissao.split('/') 
+        : ['', '', ''];
+
+      const sourceOf = async (page: BatchPage): Promise<Blob> => {
+          const blob = page.file.type === 'application/pdf' && archivedPdfIds.has(page.id)
+              ? page.file
+              : await getArchiveImage(page.id);
+          if (!blob) throw new Error("Imagem processada não encontrada. Reprocesse o item.");
+          return blob;
+      };
+      const pages = itemToPages(item);
+      const { chunkedUpload, chunkSizeKb, uploaderName } = getUploadSettings();
+
+      // Original PDFs go up as one file each; the pages rendered from them are not sent
+      const archivedPdfIds = new Set(getOutputSettings().keepOriginalPdf
+          ? pages.filter(page => page.file.type === 'application/pdf').map(page => page.id)
+          : []);
+
+      // Blobs only (the bytes stay on disk) so the total is known before anything is sent
+      const start = item.uploadedPageCount || 0;
+      const blobs = await Promise.all(pages.map((page, p) =>
+          p < start || (page.sourcePdfId && archivedPdfIds.has(page.sourcePdfId)) ? null : sourceOf(page)
+      ));
+      const totalBytes = blobs.reduce((sum, blob) => sum + (blob?.size || 0), 0);
+      let sentBytes = 0;
+
+      // Replacing: drop the archived copy once, before the first new page goes up.
+      // An unconfirmed delete throws here, so the old copy stays and nothing is sent.
+      if (item.duplicateAction === 'replace' && !item.uploadedPageCount) {
+          await getStorageBackend().remove(item.data.numeroDoc, item.data.serie || 'N/A');
+          await invalidateSearchCache();
+      }
+
+      // Whole percents only: every change re-renders the grid
+      let shownPercent = -1;
+      const reportProgress = (bytes: number) => {
+          const percent = totalBytes > 0 ? Math.min(100, Math.floor(bytes / totalBytes * 100)) : 100;
+          if (percent === shownPercent) return;
+          shownPercent = percent;
+          setItems(prev => prev.map(x => x.id === item.id ? { ...x, uploadProgress: percent } : x));
+      };
+      reportProgress(0);
+
+      for (let p = start; p < pages.length; p++) {
+          const page = pages[p];
+          const blob = blobs[p];
+          if (blob) {
+              // Base64 is made here, one page at a time, and dropped once the page is sent
               await uploadToDrive({
                 ano: ano || '2025',
                 mes: mes || '01',
                 dia: dia || '01',
                 serie: item.data.serie || 'N/A',
                 numeroDoc: item.data.numeroDoc,
-                mimeType: 'image/jpeg',
-                imagemBase64: item.base64 || ''
+                mimeType: blob.type || 'image/jpeg',
+                imagemBase64: await blobToBase64(blob),
+                imageHash: page.imageHash,
+                uploader: uploaderName.trim() || undefined
+              }, {
+                // Size in the id: a reprocessed page is a new upload, not the rest of the old one
+                uploadId: `${page.id}-${blob.size}`,
+                chunkSize: chunkedUpload ? chunkSizeKb * 1024 : undefined,
+                onProgress: (sent, total) => reportProgress(sentBytes + blob.size * sent / total)
               });
-
-              setItems(prev => prev.map(x => x.id === id ? {
-                  ...x,
-                  status: 'success',
-                  base64: undefined, // Clear RAM
-                  errorMessage: undefined,
-                  data: { ...x.data, needsReview: false }
-              } : x));
-
-          } catch (err: any) {
-              setItems(prev => prev.map(x => x.id === id ? {
-                  ...x,
-                  status: 'ready', // Keep ready so they can try again
-                  errorMessage: "Erro no envio. Tente novamente."
-              } : x));
+              sentBytes += blob.size;
           }
+          setItems(prev => prev.map(x => x.id === item.id ? { ...x, uploadedPageCount: p + 1 } : x));
       }
-      
-      setIsUploading(false);
-      setStatusMessage("Envio finalizado.");
   };
 
   const stopQueue = () => {
@@ -355,21 +973,165 @@ export const BatchManager: React.FC = () => {
   const handleRemove = (id: string) => {
     setItems(prev => {
         const item = prev.find(i => i.id === id);
-        if (item?.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(item.previewUrl);
+        if (item) revokeItemUrls(item);
         return prev.filter(i => i.id !== id);
     });
   };
 
   const handleUpdateData = (id: string, field: keyof ExtractedData, value: string) => {
-    setItems(prev => prev.map(i => i.id === id ? { ...i, data: { ...i.data, [field]: value } } : i));
+    setItems(prev => prev.map(i => {
+        if (i.id !== id) return i;
+        const data = { ...i.data, [field]: value };
+        // A different número/série is a different document: the archive lookup no longer applies
+        const identityChanged = field === 'numeroDoc' || field === 'serie';
+        // Keep the access-key cross-check live while the operator corrects fields
+        return {
+            ...i,
+            data: data.chaveAcesso ? applyChaveCheck(data) : data,
+            ...(identityChanged ? { archiveCheck: undefined, duplicateAction: undefined } : {})
+        };
+    }));
   };
 
+  // Before processing only the preview turns. A processed item goes back to the queue so the
+  // stored images are made again from the original with the new rotation (typed data is kept).
   const handleRotate = (id: string) => {
+      const item = itemsRef.current.find(i => i.id === id);
+      if (!item) return;
+      setItems(prev => prev.map(i => {
+          if (i.id !== id) return i;
+          if (!i.imagesStored) return { ...i, rotation: ((i.rotation || 0) + 270) % 360 };
+          const rotation = ((i.appliedRotation ?? 0) + 270) % 360;
+          return requeueFromOriginal({ ...i, appliedRotation: undefined, rotation });
+      }));
+      if (item.imagesStored) reprocessRotated();
+  };
+
+  // Helper: Start the queue for a re-rotated item (a running queue leaves it for the next run)
+  const reprocessRotated = () => {
+      if (isBusy) return;
+      setTimeout(startAnalysisQueue, 500);
+  };
+
+  // --- PERSPECTIVE CROP (manual) ---
+  const handleOpenCrop = (id: string) => {
+      const item = itemsRef.current.find(i => i.id === id);
+      if (!item || !item.file.type.startsWith('image/')) return;
+      setZoomState({ url: URL.createObjectURL(item.file), rotation: 0, cropItemId: id });
+  };
+
+  // The zoom shows the full image (processed, or the original before processing), not the thumbnail
+  const handleZoom = async (pageId: string, rotation: number) => {
+      const owner = itemsRef.current.find(i => i.id === pageId || i.extraPages?.some(p => p.id === pageId));
+      const page = owner && itemToPages(owner).find(p => p.id === pageId);
+      if (!page) return;
+
+      try {
+          const stored = page.imagesStored ? await getPageImage(pageId, 'ai') : undefined;
+          const source = stored || (page.file.type === 'application/pdf' ? await convertPdfToJpeg(page.file) : page.file);
+          setZoomState({ url: URL.createObjectURL(source), rotation });
+      } catch (err) {
+          console.error("Failed to open zoom", err);
+      }
+  };
+
+  const handleCloseZoom = () => {
+      // Zoom and crop editor always work on a temporary URL
+      if (zoomState) URL.revokeObjectURL(zoomState.url);
+      setZoomState(null);
+  };
+
+  // New corners: back to the queue so the page is flattened again (typed data is kept, so no new AI call)
+  const handleApplyCrop = (id: string, quad: CropQuad) => {
+      setItems(prev => prev.map(i => i.id === id
+          ? requeueFromOriginal({ ...i, crop: quad, cropSource: 'manual' })
+          : i
+      ));
+      handleCloseZoom();
+  };
+
+  // --- QUALITY GATE ---
+  const handleToggleHoldPoorImages = () => {
+      const next = !holdPoorImages;
+      holdPoorImagesRef.current = next;
+      setHoldPoorImages(next);
+      localStorage.setItem(HOLD_POOR_IMAGES_KEY, next ? '1' : '0');
+  };
+
+  const handleAcceptQuality = (id: string) => {
+      setItems(prev => prev.map(i => i.id === id
+          ? requeueFromOriginal({ ...i, heldForQuality: false, qualityOverride: true })
+          : i
+      ));
+  };
+
+  const handleRetake = (id: string) => {
+      retakeTargetRef.current = id;
+      retakeInputRef.current?.click();
+  };
+
+  // The new photo replaces page 1; everything derived from the old one is dropped, typed data is kept
+  const handleRetakeSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      const id = retakeTargetRef.current;
+      e.target.value = '';
+      retakeTargetRef.current = null;
+      if (!file || !id) return;
+
       setItems(prev => prev.map(i => {
           if (i.id !== id) return i;
-          const newRot = ((i.rotation || 0) + 270) % 360;
-          return { ...i, rotation: newRot };
+          if (i.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(i.previewUrl);
+          return {
+              ...i,
+              file,
+              previewUrl: undefined,
+              imagesStored: false,
+              imageHash: undefined,
+              rotation: undefined,
+              appliedRotation: undefined,
+              rotationSource: undefined,
+              crop: undefined,
+              cropSource: undefined,
+              quality: undefined,
+              heldForQuality: false,
+              qualityOverride: false,
+              status: 'queued',
+              errorMessage: undefined,
+              errorCode: undefined
+          };
+      }));
+
+      setTimeout(() => {
+          if (!abortRef.current && !isBusy) {
+              startAnalysisQueue();
+          }
+      }, 500);
+  };
+
+  // Same as handleRotate for one extra page: a processed page is made again from its original
+  const handleRotatePage = (id: string, pageId: string) => {
+      const page = itemsRef.current.find(i => i.id === id)?.extraPages?.find(p => p.id === pageId);
+      if (!page) return;
+      setItems(prev => prev.map(i => {
+          if (i.id !== id || !i.extraPages) return i;
+          if (!page.imagesStored) {
+              return {
+                  ...i,
+                  extraPages: i.extraPages.map(p => p.id === pageId ? { ...p, rotation: ((p.rotation || 0) + 270) % 360 } : p)
+              };
+          }
+          if (page.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(page.previewUrl);
+          const extraPages = i.extraPages.map(p => p.id === pageId ? {
+              ...p,
+              imagesStored: false,
+              imageHash: undefined,
+              previewUrl: undefined,
+              appliedRotation: undefined,
+              rotation: ((p.appliedRotation ?? 0) + 270) % 360
+          } : p);
+          return requeueFromOriginal({ ...i, extraPages });
       }));
+      if (page.imagesStored) reprocessRotated();
   };
 
   const handleTogglePause = (id: string) => {
@@ -379,7 +1141,7 @@ export const BatchManager: React.FC = () => {
              return { ...i, status: 'paused' };
          }
          if (i.status === 'queued') return { ...i, status: 'paused' };
-         if (i.status === 'paused') return { ...i, status: 'queued' };
+         if (i.status === 'paused') return i.heldForQuality ? requeueFromOriginal(i) : { ...i, status: 'queued' };
          return i;
      }));
   };
@@ -393,24 +1155,30 @@ export const BatchManager: React.FC = () => {
          return;
      }
 
+     if (findBatchDuplicateIds(itemsRef.current.filter(i => i.status !== 'success')).has(id)) {
+         alert("Número/série repetido neste lote. Junte ou remova os itens repetidos.");
+         return;
+     }
+
      updateItemStatus(id, 'uploading');
 
+     const checks = await checkArchiveDuplicates([id]);
+     if (needsArchiveDecision({ ...item, archiveCheck: checks.get(id) ?? item.archiveCheck })) {
+         // Back to where it was; the card now shows the skip/replace/append choice
+         updateItemStatus(id, item.status);
+         return;
+     }
+
      try {
-         const [dia, mes, ano] = item.data.dataEmissao.split('/');
-         await uploadToDrive({
-                ano: ano || '2025', mes: mes || '01', dia: dia || '01',
-                serie: item.data.serie || 'N/A',
-                numeroDoc: item.data.numeroDoc,
-                mimeType: 'image/jpeg',
-                imagemBase64: item.base64 || '' 
-         });
+         await uploadItemPages(item);
          setItems(prev => prev.map(i => i.id === id ? {
-             ...i, status: 'success', base64: undefined, errorMessage: undefined,
+             ...withoutStoredImages(i), status: 'success', errorMessage: undefined, errorCode: undefined, uploadProgress: undefined,
              data: { ...i.data, needsReview: false } // Clear flag on success
          } : i));
      } catch (err: any) {
+         const errorCode = classifyError(err);
          setItems(prev => prev.map(i => i.id === id ? {
-             ...i, status: 'ready', errorMessage: "Erro ao enviar."
+             ...i, status: 'ready', errorMessage: UPLOAD_ERROR_MESSAGES[errorCode], errorCode, uploadProgress: undefined
          } : i));
      }
   };
@@ -419,9 +1187,7 @@ export const BatchManager: React.FC = () => {
     setItems(prev => {
         const kept = prev.filter(i => i.status !== 'success');
         const removed = prev.filter(i => i.status === 'success');
-        removed.forEach(item => {
-             if (item.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(item.previewUrl);
-        });
+        removed.forEach(revokeItemUrls);
         return kept;
     });
   };
@@ -430,15 +1196,98 @@ export const BatchManager: React.FC = () => {
     setItems(prev => {
         const kept = prev.filter(i => i.status === 'success' || i.status === 'ready');
         const removed = prev.filter(i => i.status !== 'success' && i.status !== 'ready');
-        removed.forEach(item => {
-             if (item.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(item.previewUrl);
-        });
+        removed.forEach(revokeItemUrls);
         return kept;
     });
   };
 
+  // Failed uploads are sent again first, then the failed analyses run through the queue
+  const handleRetryAllFailed = async () => {
+     if (isBusy) return;
+     const failedUploadIds = itemsRef.current.filter(i => i.status === 'ready' && i.errorCode).map(i => i.id);
+     const hasFailedAnalyses = itemsRef.current.some(i => i.status === 'error');
+     setItems(prev => prev.map(i => i.status === 'error' ? { ...i, status: 'queued', errorMessage: undefined, errorCode: undefined } : i));
+     if (failedUploadIds.length > 0) await uploadItems(failedUploadIds);
+
+     if (!hasFailedAnalyses) return;
+     setTimeout(() => {
+         if (!abortRef.current) {
+             startAnalysisQueue();
+         }
+     }, 500);
+  };
+
   const handleRetry = (id: string) => {
-     setItems(prev => prev.map(i => i.id === id ? { ...i, status: 'queued', errorMessage: undefined } : i));
+     setItems(prev => prev.map(i => i.id === id ? { ...i, status: 'queued', errorMessage: undefined, errorCode: undefined } : i));
+     // While a queue runs the item waits for the next one (its ids are fixed); otherwise start now
+     if (isBusy) return;
+     setTimeout(startAnalysisQueue, 500);
+  };
+
+  // --- GROUPING: SEVERAL PHOTOS -> ONE DOCUMENT ---
+  const handleToggleSelect = (id: string) => {
+     setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleGroupSelected = () => {
+     if (activeSelection.length < 2) return;
+     groupItems(activeSelection);
+     setSelectedIds([]);
+  };
+
+  // Merges the given items (in order) into the first one as extra pages
+  const groupItems = (ids: string[]) => {
+     setItems(prev => {
+         const parts = ids
+             .map(id => prev.find(i => i.id === id))
+             .filter((i): i is BatchItem => !!i && GROUPABLE_STATUS.includes(i.status));
+         if (parts.length < 2) return prev;
+
+         const [primary, ...others] = parts;
+         const extraPages = [...(primary.extraPages || []), ...others.flatMap(itemToPages)];
+
+         // Keep data already read/typed for any of the parts (page 1 wins)
+         const filled = parts.find(p => p.data.numeroDoc && p.data.serie && p.data.dataEmissao);
+         const allProcessed = !!primary.imagesStored && extraPages.every(p => p.imagesStored);
+
+         const merged: BatchItem = {
+             ...primary,
+             extraPages,
+             data: filled ? filled.data : primary.data,
+             uploadedPageCount: undefined,
+             status: allProcessed && filled ? 'ready' : 'queued',
+             errorMessage: undefined,
+             errorCode: undefined
+         };
+
+         const otherIds = others.map(o => o.id);
+         return prev
+             .filter(i => !otherIds.includes(i.id))
+             .map(i => i.id === primary.id ? merged : i);
+     });
+  };
+
+  // --- DUPLICATES ---
+  const handleResolveDuplicate = (id: string, action: 'skip' | 'merge' | 'replace' | 'append') => {
+     const item = itemsRef.current.find(i => i.id === id);
+     if (!item) return;
+
+     if (action === 'skip') {
+         handleRemove(id);
+         return;
+     }
+
+     if (action === 'merge') {
+         // Every unsent item with the same número/série becomes a page of this one
+         const key = docKey(item.data);
+         const sameDoc = itemsRef.current
+             .filter(i => i.id !== id && i.status !== 'success' && i.data.numeroDoc && docKey(i.data) === key)
+             .map(i => i.id);
+         groupItems([id, ...sameDoc]);
+         return;
+     }
+
+     setItems(prev => prev.map(i => i.id === id ? { ...i, duplicateAction: action } : i));
   };
 
   return (
@@ -469,6 +1318,17 @@ export const BatchManager: React.FC = () => {
             </div>
          </div>
 
+         {/* Quality Gate Toggle */}
+         <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 px-1 cursor-pointer select-none">
+            <input
+               type="checkbox"
+               checked={holdPoorImages}
+               onChange={handleToggleHoldPoorImages}
+               className="accent-brand-primary"
+            />
+            Segurar fotos ruins (borradas/escuras) para refazer antes da leitura
+         </label>
+
          {/* QUOTA WARNING BANNER */}
          {isManualMode && (
             <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 p-3 rounded-lg flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
@@ -482,6 +1342,45 @@ export const BatchManager: React.FC = () => {
             </div>
          )}
 
+         {/* RESTORED QUEUE BANNER */}
+         {restoredCount > 0 && (
+            <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 p-3 rounded-lg flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+                <History className="text-blue-600 dark:text-blue-400 shrink-0" />
+                <p className="flex-1 text-xs text-blue-800 dark:text-blue-200">
+                    {restoredCount} item(s) recuperado(s) da sessão anterior. Itens interrompidos voltaram para a fila.
+                </p>
+                <button onClick={() => setRestoredCount(0)} className="text-blue-400 hover:text-blue-600 p-1">
+                    <X size={16} />
+                </button>
+            </div>
+         )}
+
+         {/* XML IMPORT SUMMARY */}
+         {xmlDocs.length > 0 && (
+            <div className="bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-200 dark:border-emerald-800 p-3 rounded-lg flex items-start gap-3">
+                <FileCode className="text-emerald-600 dark:text-emerald-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-emerald-800 dark:text-emerald-200">
+                        {xmlDocs.length} XML(s) de CT-e importado(s) • {xmlDocs.length - unmatchedXmlDocs.length} vinculado(s)
+                    </p>
+                    {unmatchedXmlDocs.length > 0 && (
+                        <p className="text-[11px] text-emerald-700 dark:text-emerald-300 truncate">
+                            Sem imagem: {unmatchedXmlDocs.map(d => `${d.data.numeroDoc}/${d.data.serie}`).join(', ')}
+                        </p>
+                    )}
+                </div>
+                {!isBusy && (
+                    <button
+                        onClick={() => { xmlDocsRef.current = []; setXmlDocs([]); }}
+                        className="text-emerald-400 hover:text-emerald-600 p-1"
+                        title="Descartar XMLs"
+                    >
+                        <X size={16} />
+                    </button>
+                )}
+            </div>
+         )}
+
          {/* Status Banner */}
          {isBusy && (
             <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 p-3 rounded-lg flex items-center gap-3 animate-pulse">
@@ -506,11 +1405,31 @@ export const BatchManager: React.FC = () => {
                 Toque para selecionar arquivos
             </p>
             <p className="text-sm text-gray-400 mt-2">
-                Suporta Lotes Grandes (100+)
+                Imagens, PDFs e XML do CT-e • Lotes Grandes (100+)
             </p>
         </div>
       )}
 
+      {/* Selection Bar (grouping) */}
+      {activeSelection.length > 0 && !isBusy && (
+         <div className="sticky top-0 z-20 bg-brand-surface dark:bg-brand-dark border border-brand-primary/30 p-2 rounded-lg flex items-center gap-2 shadow-sm">
+             <span className="flex-1 text-xs font-bold text-brand-primary dark:text-white pl-1">
+                 {activeSelection.length} selecionado(s) • ordem = ordem das páginas
+             </span>
+             <Button
+                 variant="primary"
+                 onClick={handleGroupSelected}
+                 disabled={activeSelection.length < 2}
+                 className="h-9 text-xs px-3"
+             >
+                 <Layers size={14} className="mr-1" /> Agrupar em 1 documento
+             </Button>
+             <button onClick={() => setSelectedIds([])} className="text-gray-400 hover:text-red-500 p-1.5">
+                 <X size={16} />
+             </button>
+         </div>
+      )}
+
       {/* List */}
       <div className="space-y-3">
          {items.map(item => (
@@ -523,7 +1442,16 @@ export const BatchManager: React.FC = () => {
                 onConfirm={handleSingleUpload} 
                 onRotate={handleRotate}
                 onTogglePause={handleTogglePause}
-                onZoom={(url) => setZoomState({ url, rotation: item.rotation || 0 })}
+                onRotatePage={handleRotatePage}
+                selectionIndex={activeSelection.indexOf(item.id)}
+                onToggleSelect={!isBusy && GROUPABLE_STATUS.includes(item.status) ? handleToggleSelect : undefined}
+                isBatchDuplicate={batchDuplicateIds.has(item.id)}
+                similarTo={similarImages.get(item.id)}
+                onResolveDuplicate={!isBusy ? handleResolveDuplicate : undefined}
+                onZoom={handleZoom}
+                onEditCrop={!isBusy ? handleOpenCrop : undefined}
+                onRetake={!isBusy ? handleRetake : undefined}
+                onAcceptQuality={!isBusy ? handleAcceptQuality : undefined}
             />
          ))}
       </div>
@@ -533,12 +1461,20 @@ export const BatchManager: React.FC = () => {
          <input 
             type="file" 
             multiple 
-            accept="image/*,application/pdf" 
+            accept="image/*,application/pdf,.xml,text/xml,application/xml" 
             ref={fileInputRef} 
             onChange={handleFileSelect} 
             className="hidden" 
             disabled={isBusy}
          />
+         <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            ref={retakeInputRef}
+            onChange={handleRetakeSelected}
+            className="hidden"
+         />
          
          {!isBusy ? (
             <>
@@ -548,6 +1484,11 @@ export const BatchManager: React.FC = () => {
                         <Plus size={20} />
                     </Button>
                 )}
+                {items.length < MAX_BATCH_SIZE && (
+                    <Button variant="outline" onClick={() => setIsCameraOpen(true)} className="px-3" title="Câmera">
+                        <Camera size={20} />
+                    </Button>
+                )}
                 
                 {(queuedCount > 0 || errorCount > 0) && (
                     <Button variant="ghost" onClick={handleClearQueue} className="text-red-500 px-3">
@@ -555,6 +1496,13 @@ export const BatchManager: React.FC = () => {
                     </Button>
                 )}
 
+                {/* Retry everything that failed (analysis and upload) */}
+                {errorCount + failedUploadCount > 0 && (
+                    <Button variant="outline" onClick={handleRetryAllFailed} className="px-3 text-red-600" title="Tentar novamente todos com falha">
+                        <RotateCcw size={20} className="mr-1" /> {errorCount + failedUploadCount}
+                    </Button>
+                )}
+
                 {/* 2. Analyze Action */}
                 {queuedCount > 0 && (
                     <Button 
@@ -598,11 +1546,21 @@ export const BatchManager: React.FC = () => {
          )}
       </div>
 
+      <CameraCapture
+         isOpen={isCameraOpen}
+         onCapture={handleCameraShot}
+         onClose={handleCloseCamera}
+      />
+
       <ImageZoomModal 
          isOpen={!!zoomState} 
          imageUrl={zoomState?.url || ''} 
          rotation={zoomState?.rotation || 0}
-         onClose={() => setZoomState(null)} 
+         onClose={handleCloseZoom} 
+         crop={zoomState?.cropItemId ? {
+             quad: items.find(i => i.id === zoomState.cropItemId)?.crop,
+             onApply: (quad) => handleApplyCrop(zoomState.cropItemId!, quad)
+         } : undefined}
       />
     </div>
   );
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Camera, Check, Zap, ZapOff } from 'lucide-react';
+import { FRAME_ANALYSIS_WIDTH, frameDifference, measureFrame } from '../../lib/cameraFrame';
+
+interface CameraCaptureProps {
+  isOpen: boolean;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type CaptureState = 'aligning' | 'steady' | 'captured';
+
+const ANALYSIS_INTERVAL_MS = 200;
+// Mean luminance change (0-255) between analysis frames below which the phone is "still"
+const STEADY_DIFF = 4;
+// Consecutive still frames before an auto capture (~1s)
+const STEADY_FRAMES = 5;
+// Focus floor at the analysis size; a blurry frame never triggers
+const MIN_SHARPNESS = 40;
+// After a shot, the scene must change this much (next page) before auto capture re-arms
+const NEXT_PAGE_DIFF = 18;
+const JPEG_QUALITY = 0.92;
+
+const HINTS: Record<CaptureState, string> = {
+  aligning: 'Enquadre o documento na moldura',
+  steady: 'Segure firme...',
+  captured: 'Capturado! Troque a folha'
+};
+
+/**
+ * Full-screen camera with a framing guide. Auto-captures when the picture is still and sharp;
+ * each shot is handed over as a JPEG File.
+ */
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [captureState, setCaptureState] = useState<CaptureState>('aligning');
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [shots, setShots] = useState(0);
+  const [flash, setFlash] = useState(false);
+
+  // Analysis state lives in refs: it changes every tick and must not re-render
+  const previousFrameRef = useRef<Float32Array | null>(null);
+  const capturedFrameRef = useRef<Float32Array | null>(null);
+  const steadyCountRef = useRef(0);
+  const isCapturingRef = useRef(false);
+
+  // --- CAMERA STREAM ---
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const start = async () => {
+      setError(null);
+      setShots(0);
+      setCaptureState('aligning');
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+      } catch (err) {
+        console.error('Camera Error:', err);
+        setError('Não foi possível abrir a câmera. Verifique a permissão do navegador.');
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+      previousFrameRef.current = null;
+      capturedFrameRef.current = null;
+      steadyCountRef.current = 0;
+    };
+  }, [isOpen]);
+
+  // --- FULL-RESOLUTION SHOT ---
+  const capture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || isCapturingRef.current) return;
+    isCapturingRef.current = true;
+
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0);
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+      if (!blob) return;
+
+      const stamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+      onCapture(new File([blob], `camera_${stamp}_${shots + 1}.jpg`, { type: 'image/jpeg' }));
+
+      setShots(prev => prev + 1);
+      setCaptureState('captured');
+      capturedFrameRef.current = previousFrameRef.current;
+      steadyCountRef.current = 0;
+      setFlash(true);
+      setTimeout(() => setFlash(false), 150);
+    } finally {
+      isCapturingRef.current = false;
+    }
+  };
+
+  // --- LIVE ANALYSIS: STILL + SHARP -> SHOT ---
+  useEffect(() => {
+    if (!isOpen || error) return;
+
+    const small = document.createElement('canvas');
+    const ctx = small.getContext('2d', { willReadFrequently: true });
+
+    const tick = () => {
+      const video = videoRef.current;
+      if (!ctx || !video || !video.videoWidth || isCapturingRef.current) return;
+
+      small.width = FRAME_ANALYSIS_WIDTH;
+      small.height = Math.round(video.videoHeight * (FRAME_ANALYSIS_WIDTH / video.videoWidth));
+      ctx.drawImage(video, 0, 0, small.width, small.height);
+      const { gray, sharpness } = measureFrame(ctx, small.width, small.height);
+
+      const previous = previousFrameRef.current;
+      previousFrameRef.current = gray;
+      if (!previous) return;
+
+      // Waiting for the next page: the scene has to change before we arm again
+      if (capturedFrameRef.current) {
+        if (frameDifference(gray, capturedFrameRef.current) < NEXT_PAGE_DIFF) return;
+        capturedFrameRef.current = null;
+        setCaptureState('aligning');
+      }
+
+      const isStill = frameDifference(gray, previous) < STEADY_DIFF;
+      steadyCountRef.current = isStill && sharpness >= MIN_SHARPNESS ? steadyCountRef.current + 1 : 0;
+      setCaptureState(steadyCountRef.current > 0 ? 'steady' : 'aligning');
+
+      if (autoCapture && steadyCountRef.current >= STEADY_FRAMES) {
+        capture();
+      }
+    };
+
+    const timer = setInterval(tick, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, error, autoCapture, shots]);
+
+  if (!isOpen) return null;
+
+  const guideColor = captureState === 'steady' ? 'border-green-400' : captureState === 'captured' ? 'border-blue-400' : 'border-white/80';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black flex flex-col">
+      <video ref={videoRef} playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+
+      {/* Shutter flash */}
+      {flash && <div className="absolute inset-0 bg-white/70 z-[105] pointer-events-none" />}
+
+      {/* Framing Guide (A4 proportion) */}
+      {!error && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-[101]">
+          <div className={`border-4 rounded-lg transition-colors duration-200 ${guideColor}`} style={{ height: '72vh', aspectRatio: '1 / 1.414', maxWidth: '88vw' }} />
+        </div>
+      )}
+
+      {/* Top Bar */}
+      <div className="relative z-[110] flex items-center justify-between p-4">
+        <button onClick={onClose} className="p-3 bg-white/10 text-white rounded-full hover:bg-white/20 backdrop-blur-md border border-white/10">
+          <X size={24} />
+        </button>
+        <span className="text-white/90 text-sm bg-black/60 px-4 py-2 rounded-full backdrop-blur-md border border-white/10">
+          {error || HINTS[captureState]}
+        </span>
+        <button
+          onClick={() => setAutoCapture(prev => !prev)}
+          className={`p-3 rounded-full backdrop-blur-md border border-white/10 ${autoCapture ? 'bg-green-500/80 text-white' : 'bg-white/10 text-white'}`}
+          title={autoCapture ? 'Captura automática ligada' : 'Captura automática desligada'}
+        >
+          {autoCapture ? <Zap size={24} /> : <ZapOff size={24} />}
+        </button>
+      </div>
+
+      {/* Bottom Bar */}
+      <div className="relative z-[110] mt-auto flex items-center justify-between p-6 pb-10">
+        <span className="w-20 text-white font-bold text-sm">{shots} foto(s)</span>
+        <button
+          onClick={capture}
+          disabled={!!error}
+          className="w-20 h-20 rounded-full bg-white border-4 border-gray-300 flex items-center justify-center active:scale-95 disabled:opacity-40"
+          title="Capturar"
+        >
+          <Camera size={32} className="text-gray-700" />
+        </button>
+        <button
+          onClick={onClose}
+          className="w-20 h-12 rounded-xl bg-brand-primary text-white font-bold flex items-center justify-center gap-1"
+        >
+          <Check size={18} /> OK
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import { Check, Maximize, ScanLine, Loader2 } from 'lucide-react';
+import { CropQuad } from '../../types';
+import { detectDocumentQuad, FULL_FRAME_QUAD } from '../../lib/perspective';
+import { Button } from '../ui/Button';
+
+interface CropEditorProps {
+  imageUrl: string; // Original (unrotated, uncropped) image
+  initialQuad?: CropQuad;
+  onApply: (quad: CropQuad) => void;
+}
+
+const CORNER_LABELS = ['Superior esquerdo', 'Superior direito', 'Inferior direito', 'Inferior esquerdo'];
+
+/**
+ * Four draggable corners over the original photo. Coordinates are normalized (0..1).
+ */
+export const CropEditor: React.FC<CropEditorProps> = ({ imageUrl, initialQuad, onApply }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [quad, setQuad] = useState<CropQuad>(initialQuad || FULL_FRAME_QUAD);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  const moveCorner = (index: number, e: React.PointerEvent) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setQuad(prev => prev.map((p, i) => i === index ? { x, y } : p) as CropQuad);
+  };
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    try {
+      const blob = await (await fetch(imageUrl)).blob();
+      const detected = await detectDocumentQuad(blob);
+      if (detected) setQuad(detected);
+      else alert("Bordas do documento não encontradas. Ajuste os cantos manualmente.");
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const points = quad.map(p => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-4 p-4">
+      <div ref={frameRef} className="relative inline-block select-none" style={{ touchAction: 'none' }}>
+        <img
+          src={imageUrl}
+          alt="Recorte"
+          draggable={false}
+          className="block max-w-[90vw] max-h-[70vh] object-contain"
+        />
+
+        {/* Outline */}
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+          <polygon points={points} fill="rgba(59,130,246,0.15)" stroke="#3b82f6" strokeWidth={0.004} />
+        </svg>
+
+        {/* Corner Handles */}
+        {quad.map((p, i) => (
+          <div
+            key={i}
+            onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setDragging(i); }}
+            onPointerMove={(e) => dragging === i && moveCorner(i, e)}
+            onPointerUp={() => setDragging(null)}
+            className={`absolute w-7 h-7 -ml-3.5 -mt-3.5 rounded-full border-2 border-white shadow-lg cursor-move ${dragging === i ? 'bg-blue-400 scale-125' : 'bg-blue-600'}`}
+            style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+            title={CORNER_LABELS[i]}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2 flex-wrap justify-center">
+        <Button variant="ghost" onClick={handleDetect} disabled={isDetecting} className="h-10 text-sm text-white hover:bg-white/10">
+          {isDetecting ? <Loader2 size={16} className="mr-2 animate-spin" /> : <ScanLine size={16} className="mr-2" />}
+          Detectar bordas
+        </Button>
+        <Button variant="ghost" onClick={() => setQuad(FULL_FRAME_QUAD)} className="h-10 text-sm text-white hover:bg-white/10">
+          <Maximize size={16} className="mr-2" /> Imagem inteira
+        </Button>
+        <Button variant="primary" onClick={() => onApply(quad)} className="h-10 text-sm">
+          <Check size={16} className="mr-2" /> Aplicar recorte
+        </Button>
+      </div>
+    </div>
+  );
+};
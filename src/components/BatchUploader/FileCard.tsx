@@ -1,6 +1,8 @@
 import React from 'react';
-import { X, AlertCircle, CheckCircle, RotateCw, ZoomIn, Loader2, PlayCircle, Clock, FileText, Brain, Upload, RotateCcw, AlertTriangle, PauseCircle, CheckSquare } from 'lucide-react';
-import { BatchItem } from '../../types';
+import { X, AlertCircle, CheckCircle, RotateCw, ZoomIn, Loader2, PlayCircle, Clock, FileText, Brain, Upload, RotateCcw, AlertTriangle, PauseCircle, CheckSquare, Copy, Image as ImageIcon, Crop, Camera } from 'lucide-react';
+import { BatchItem, ImageQuality, RotationSource } from '../../types';
+import { formatChave, isValidChave } from '../../lib/chaveAcesso';
+import { docKey } from '../../lib/duplicates';
 import { Button } from '../ui/Button';
 
 interface FileCardProps {
@@ -9,12 +11,29 @@ interface FileCardProps {
   onUpdateData: (id: string, field: keyof BatchItem['data'], value: string) => void;
   onRetry: (id: string) => void;
   onConfirm?: (id: string) => void; 
-  onZoom: (url: string) => void;
+  onZoom: (pageId: string, rotation: number) => void;
   onRotate: (id: string) => void;
+  onRotatePage?: (id: string, pageId: string) => void;
   onTogglePause?: (id: string) => void;
+  onToggleSelect?: (id: string) => void; // Only passed when the item may be grouped
+  selectionIndex?: number; // Position in the grouping selection, -1 if not selected
+  isBatchDuplicate?: boolean; // Same número/série as another item of this batch
+  onResolveDuplicate?: (id: string, action: 'skip' | 'merge' | 'replace' | 'append') => void;
+  similarTo?: string[]; // Other documents with a page that looks like the same photo
+  onEditCrop?: (id: string) => void; // Opens the four-corner crop editor on the original photo
+  onRetake?: (id: string) => void; // Replace page 1 with a new photo
+  onAcceptQuality?: (id: string) => void; // Send a photo held for quality to AI anyway
 }
 
-export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData, onRetry, onConfirm, onZoom, onRotate, onTogglePause }) => {
+const QUALITY_BADGE: Record<ImageQuality['level'], { label: string; className: string }> = {
+  good: { label: 'Boa', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  fair: { label: 'Regular', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  poor: { label: 'Ruim', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' }
+};
+
+const ROTATION_SOURCE_LABEL: Record<RotationSource, string> = { auto: 'automática', default: 'padrão', manual: 'manual' };
+
+export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData, onRetry, onConfirm, onZoom, onRotate, onRotatePage, onTogglePause, onToggleSelect, selectionIndex = -1, isBatchDuplicate = false, onResolveDuplicate, similarTo = [], onEditCrop, onRetake, onAcceptQuality }) => {
   // 1. Determine State
   const isActiveProcessing = 
     item.status === 'processing_image' || 
@@ -67,7 +86,7 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
       statusText = "Lendo (IA)...";
       statusIcon = <Brain size={14} className="animate-pulse text-purple-500" />;
   } else if (item.status === 'uploading') {
-      statusText = "Enviando Drive...";
+      statusText = item.uploadProgress !== undefined ? `Enviando... ${item.uploadProgress}%` : "Enviando Drive...";
       statusIcon = <Loader2 size={14} className="animate-spin text-yellow-500" />;
   } else if (isSuccess) {
       statusText = "Enviado!";
@@ -75,6 +94,10 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
   } else if (isError) {
       statusText = item.errorMessage || "Erro";
       statusIcon = <AlertCircle size={14} className="text-red-600" />;
+  } else if (isAnalyzed && item.errorCode) {
+      // Upload failed: still ready, so "Enviar" tries again
+      statusText = item.errorMessage || "Erro no envio";
+      statusIcon = <AlertCircle size={14} className="text-red-600" />;
   } else if (isAnalyzed) {
       statusText = "Analisado - Pronto para envio";
       statusIcon = <CheckSquare size={14} className="text-orange-500" />;
@@ -95,13 +118,26 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
     onUpdateData(item.id, 'dataEmissao', v);
   };
   
+  // Archive lookup only counts while número/série still match what was looked up, and not for
+  // a half-sent item (the archived pages are its own)
+  const archivedPages = !item.uploadedPageCount && item.archiveCheck && item.archiveCheck.key === docKey(item.data)
+    ? item.archiveCheck.existingPages
+    : 0;
+  const showDuplicateWarning = !isSuccess && (isBatchDuplicate || archivedPages > 0);
+
   const showPreview = item.previewUrl && item.previewUrl !== 'error';
+  const extraPages = item.extraPages || [];
+  const pageCount = 1 + extraPages.length;
 
   return (
     <div className={`relative rounded-xl transition-all duration-300 overflow-hidden shadow-sm ${cardStyleClass}`}>
       
-      {/* Progress Bar */}
-      {isActiveProcessing && (
+      {/* Progress Bar: real bytes while uploading, indeterminate for the other steps */}
+      {item.status === 'uploading' && item.uploadProgress !== undefined ? (
+         <div className="absolute top-0 left-0 h-1 w-full bg-blue-100 dark:bg-blue-900/40 z-10">
+            <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${item.uploadProgress}%` }}></div>
+         </div>
+      ) : isActiveProcessing && (
          <div className="absolute top-0 left-0 h-1 bg-blue-500 transition-all duration-300 z-10 w-full overflow-hidden">
             <div className="absolute top-0 left-0 h-full w-full bg-white/50 animate-indeterminate-bar"></div>
          </div>
@@ -124,7 +160,7 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
               {/* PERMANENT OVERLAY ACTIONS */}
               <div className="absolute bottom-1 right-1 left-1 flex justify-center gap-2 z-20">
                  <button 
-                    onClick={(e) => { e.stopPropagation(); onZoom(item.previewUrl!); }} 
+                    onClick={(e) => { e.stopPropagation(); onZoom(item.id, item.rotation || 0); }} 
                     className="bg-black/40 text-white p-1.5 rounded-full hover:bg-black/60 backdrop-blur-sm transition-colors border border-white/10" 
                     title="Ver Fullscreen"
                  >
@@ -140,6 +176,16 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
                        <RotateCcw size={14} />
                     </button>
                  )}
+
+                 {allowEditing && onEditCrop && item.file.type.startsWith('image/') && (
+                    <button 
+                        onClick={(e) => { e.stopPropagation(); onEditCrop(item.id); }} 
+                        className={`p-1.5 rounded-full backdrop-blur-sm transition-colors border border-white/10 ${item.cropSource === 'manual' ? 'bg-brand-primary text-white' : 'bg-black/40 text-white hover:bg-black/60'}`}
+                        title="Recortar documento"
+                    >
+                       <Crop size={14} />
+                    </button>
+                 )}
               </div>
             </div>
           ) : (
@@ -151,6 +197,21 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
             </div>
           )}
 
+          {/* Grouping Selector - shows the page order once selected */}
+          {onToggleSelect && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onToggleSelect(item.id); }}
+                className={`absolute top-1 left-1 z-20 w-6 h-6 rounded-full border-2 flex items-center justify-center text-[11px] font-bold shadow-md transition-colors ${
+                    selectionIndex >= 0
+                        ? 'bg-brand-primary border-white text-white'
+                        : 'bg-black/30 border-white/80 text-transparent hover:bg-black/50'
+                }`}
+                title={selectionIndex >= 0 ? `Página ${selectionIndex + 1} do agrupamento` : 'Selecionar para agrupar'}
+             >
+                {selectionIndex >= 0 ? selectionIndex + 1 : ''}
+             </button>
+          )}
+
           {/* Status Badge Overlays */}
           <div className="absolute top-1 right-1 z-20 pointer-events-none">
              {isSuccess && <div className="bg-green-500 text-white p-1 rounded-full shadow-md"><CheckCircle size={14} /></div>}
@@ -180,7 +241,18 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
           {/* Header Row */}
           <div className="flex justify-between items-start">
              <div className="flex flex-col w-full">
-                <h4 className="text-xs font-mono text-gray-500 truncate max-w-[200px] mb-1">{item.file.name}</h4>
+                <h4 className="text-xs font-mono text-gray-500 truncate max-w-[200px] mb-1">
+                    {item.file.name}
+                    {pageCount > 1 && <span className="ml-1 font-sans font-bold text-brand-primary">• {pageCount} págs</span>}
+                    {item.appliedRotation !== undefined && item.rotationSource && (
+                       <span
+                          className={`ml-1 font-sans ${item.rotationSource === 'default' ? 'text-amber-600' : 'text-gray-400'}`}
+                          title={item.rotationSource === 'default' ? 'Orientação não detectada com segurança' : undefined}
+                       >
+                          • {item.appliedRotation}° ({ROTATION_SOURCE_LABEL[item.rotationSource]})
+                       </span>
+                    )}
+                </h4>
                 
                 {/* Status Text Feedback */}
                 <div className="flex items-center gap-1.5 flex-wrap">
@@ -196,6 +268,20 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
                         {statusText}
                     </span>
                 </div>
+                {/* Quality Badge */}
+                {item.quality && !isSuccess && (
+                   <div
+                      className="flex items-center gap-1 mt-0.5 text-[10px]"
+                      title={`Nitidez ${item.quality.sharpness} • Brilho ${item.quality.brightness} • Contraste ${item.quality.contrast} • ${item.quality.width}x${item.quality.height}px`}
+                   >
+                      <span className={`px-1.5 rounded font-bold ${QUALITY_BADGE[item.quality.level].className}`}>
+                         Foto: {QUALITY_BADGE[item.quality.level].label}
+                      </span>
+                      {item.quality.issues.length > 0 && (
+                         <span className="text-gray-500 truncate">{item.quality.issues.join(', ')}</span>
+                      )}
+                   </div>
+                )}
                 {/* Manual hint */}
                 {isError && !showRetryAsUpload && (
                    <div className="text-[10px] text-red-500 mt-0.5 leading-tight">
@@ -282,6 +368,100 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
                 />
           </div>
 
+          {/* Access Key & Review Warnings */}
+          {item.data.chaveAcesso && (
+             <div className={`text-[10px] font-mono leading-tight break-all ${isValidChave(item.data.chaveAcesso) ? 'text-gray-500' : 'text-red-600'}`}>
+                Chave: {formatChave(item.data.chaveAcesso)}
+                {item.data.source === 'barcode' && (
+                   <span className="ml-1 font-sans font-bold text-emerald-600">• Cód. barras</span>
+                )}
+                {item.data.source === 'xml' && (
+                   <span className="ml-1 font-sans font-bold text-emerald-600">• XML</span>
+                )}
+                {item.data.source === 'ocr' && (
+                   <span className="ml-1 font-sans font-bold text-amber-600">• OCR local</span>
+                )}
+             </div>
+          )}
+          {item.data.needsReview && !isSuccess && (
+             <div className="flex items-start gap-1 text-[10px] text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded px-1.5 py-1 leading-tight">
+                <AlertTriangle size={12} className="shrink-0 mt-px" />
+                <span>
+                   {item.data.reviewReasons && item.data.reviewReasons.length > 0
+                      ? item.data.reviewReasons.join(' ')
+                      : 'Conferir leitura antes de enviar.'}
+                </span>
+             </div>
+          )}
+
+          {/* Held For Retake */}
+          {item.heldForQuality && isPaused && (
+             <div className="text-[10px] text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded px-1.5 py-1 space-y-1">
+                <div className="font-bold leading-tight">Foto ruim: refaça a foto antes da leitura.</div>
+                <div className="flex gap-1 flex-wrap">
+                   {onRetake && (
+                      <button onClick={() => onRetake(item.id)} className="px-2 py-0.5 rounded bg-white/70 dark:bg-black/20 hover:bg-white font-bold flex items-center gap-1">
+                         <Camera size={11} /> Refazer foto
+                      </button>
+                   )}
+                   {onAcceptQuality && (
+                      <button onClick={() => onAcceptQuality(item.id)} className="px-2 py-0.5 rounded bg-white/70 dark:bg-black/20 hover:bg-white font-bold">
+                         Ler assim mesmo
+                      </button>
+                   )}
+                </div>
+             </div>
+          )}
+
+          {/* Duplicate Warning */}
+          {showDuplicateWarning && (
+             <div className="text-[10px] text-amber-800 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 rounded px-1.5 py-1 space-y-1">
+                <div className="flex items-center gap-1 font-bold leading-tight">
+                   <Copy size={12} className="shrink-0" />
+                   {isBatchDuplicate
+                      ? 'Número/série repetido neste lote.'
+                      : `Já arquivado (${archivedPages} pág.).`}
+                </div>
+                {onResolveDuplicate && !isActiveProcessing && (
+                   <div className="flex gap-1 flex-wrap">
+                      {isBatchDuplicate ? (
+                         <>
+                            <button onClick={() => onResolveDuplicate(item.id, 'merge')} className="px-2 py-0.5 rounded bg-white/70 dark:bg-black/20 hover:bg-white font-bold">
+                               Juntar como páginas
+                            </button>
+                            <button onClick={() => onResolveDuplicate(item.id, 'skip')} className="px-2 py-0.5 rounded bg-white/70 dark:bg-black/20 hover:bg-white font-bold">
+                               Remover
+                            </button>
+                         </>
+                      ) : (
+                         <>
+                            <button onClick={() => onResolveDuplicate(item.id, 'skip')} className="px-2 py-0.5 rounded bg-white/70 dark:bg-black/20 hover:bg-white font-bold">
+                               Ignorar
+                            </button>
+                            {(['replace', 'append'] as const).map(action => (
+                               <button
+                                  key={action}
+                                  onClick={() => onResolveDuplicate(item.id, action)}
+                                  className={`px-2 py-0.5 rounded font-bold ${item.duplicateAction === action ? 'bg-amber-600 text-white' : 'bg-white/70 dark:bg-black/20 hover:bg-white'}`}
+                               >
+                                  {action === 'replace' ? 'Substituir' : 'Adicionar páginas'}
+                               </button>
+                            ))}
+                         </>
+                      )}
+                   </div>
+                )}
+             </div>
+          )}
+
+          {/* Same Photo Warning */}
+          {similarTo.length > 0 && !isSuccess && (
+             <div className="flex items-start gap-1 text-[10px] text-amber-800 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 rounded px-1.5 py-1 leading-tight">
+                <ImageIcon size={12} className="shrink-0 mt-px" />
+                <span>Imagem parecida com: {similarTo.join(', ')}. Confira se a foto é deste CT-e.</span>
+             </div>
+          )}
+
           {/* Action Buttons */}
           <div className="mt-2 flex gap-2">
             {isAnalyzed && onConfirm && (
@@ -328,6 +508,41 @@ export const FileCard: React.FC<FileCardProps> = ({ item, onRemove, onUpdateData
           </div>
         </div>
       </div>
+
+      {/* Extra Pages Strip (multi-page documents) */}
+      {extraPages.length > 0 && (
+        <div className="px-3 pb-3 flex gap-2 overflow-x-auto">
+          {extraPages.map((page, idx) => (
+            <div key={page.id} className="relative w-14 h-[4.5rem] shrink-0 bg-gray-100 dark:bg-gray-800 rounded-md overflow-hidden border border-gray-200 dark:border-gray-600">
+              {page.previewUrl && page.previewUrl !== 'error' ? (
+                <img
+                  src={page.previewUrl}
+                  alt={`Página ${idx + 2}`}
+                  style={{ transform: `rotate(${page.rotation || 0}deg)` }}
+                  className="w-full h-full object-contain cursor-zoom-in"
+                  onClick={() => onZoom(page.id, page.rotation || 0)}
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-400">
+                  <Loader2 size={14} className="animate-spin" />
+                </div>
+              )}
+              <span className="absolute top-0.5 left-0.5 bg-black/50 text-white text-[9px] font-bold px-1 rounded pointer-events-none">
+                {idx + 2}
+              </span>
+              {allowEditing && onRotatePage && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRotatePage(item.id, page.id); }}
+                  className="absolute bottom-0.5 right-0.5 bg-black/40 text-white p-1 rounded-full hover:bg-black/60"
+                  title="Girar Anti-horário"
+                >
+                  <RotateCcw size={10} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,15 +1,22 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { CropQuad } from '../../types';
+import { CropEditor } from './CropEditor';
 
 interface ImageZoomModalProps {
   isOpen: boolean;
   imageUrl: string;
   rotation?: number;
   onClose: () => void;
+  // Crop mode: imageUrl is the original photo and the four-corner editor replaces the zoom view
+  crop?: {
+    quad?: CropQuad;
+    onApply: (quad: CropQuad) => void;
+  };
 }
 
-export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({ isOpen, imageUrl, rotation = 0, onClose }) => {
+export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({ isOpen, imageUrl, rotation = 0, onClose, crop }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
 
@@ -44,15 +51,19 @@ export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({ isOpen, imageUrl
         <X size={28} />
       </button>
 
+      {crop && (
+        <CropEditor imageUrl={imageUrl} initialQuad={crop.quad} onApply={crop.onApply} />
+      )}
+
       {/* Instructions */}
-      <div className="fixed bottom-10 left-0 right-0 z-[120] flex justify-center pointer-events-none">
+      {!crop && <div className="fixed bottom-10 left-0 right-0 z-[120] flex justify-center pointer-events-none">
         <p className="text-white/90 text-sm bg-black/60 px-4 py-2 rounded-full backdrop-blur-md border border-white/10 shadow-lg">
           {scale === 1 ? "Duplo clique para zoom" : "Arraste para mover • Duplo clique para sair"}
         </p>
-      </div>
+      </div>}
 
       {/* Image Container - Clips overflow only if scale is 1, otherwise let it overflow for drag */}
-      <div 
+      {!crop && <div 
         ref={containerRef} 
         className="w-full h-full flex items-center justify-center p-0 md:p-4"
         onWheel={handleWheel}
@@ -90,7 +101,7 @@ export const ImageZoomModal: React.FC<ImageZoomModalProps> = ({ isOpen, imageUrl
              height: 'auto'
           }} 
         />
-      </div>
+      </div>}
     </div>
   );
 };
\ No newline at end of file
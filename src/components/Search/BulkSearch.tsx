@@ -0,0 +1,216 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CheckCircle, XCircle, AlertTriangle, Clock, FileSpreadsheet, Download, Play, StopCircle, ExternalLink, Eye, Archive, Loader2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { parseCteNumbersText, readCteNumbersFromFile } from '../../lib/bulkList';
+import { downloadBlob } from '../../lib/download';
+import { BULK_STATUS_LABELS, BulkSearchRow, BulkSearchStatus, bulkRowsToCsv, runBulkSearch } from '../../services/bulkSearch';
+import { buildDocumentsZip } from '../../services/documentExport';
+
+interface BulkSearchProps {
+  onOpen: (numero: string) => void; // Shows a found document in the viewer
+}
+
+const STATUS_ICONS: Record<BulkSearchStatus, React.ReactNode> = {
+  pending: <Clock size={16} className="text-gray-400" />,
+  found: <CheckCircle size={16} className="text-green-600" />,
+  missing: <XCircle size={16} className="text-red-500" />,
+  error: <AlertTriangle size={16} className="text-amber-500" />
+};
+
+/**
+ * Completeness check of a list of CTEs (pasted, CSV or XLSX): which ones are archived.
+ */
+export const BulkSearch: React.FC<BulkSearchProps> = ({ onOpen }) => {
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<BulkSearchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [onlyMissing, setOnlyMissing] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [zipProgress, setZipProgress] = useState<string | null>(null);
+  const stopRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const numbers = useMemo(() => parseCteNumbersText(text), [text]);
+  const doneCount = rows.filter(row => row.status !== 'pending').length;
+  const foundCount = rows.filter(row => row.status === 'found').length;
+  const missingCount = rows.filter(row => row.status === 'missing').length;
+  const errorCount = rows.filter(row => row.status === 'error').length;
+  const visibleRows = onlyMissing ? rows.filter(row => row.status !== 'found') : rows;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Same file can be picked again
+    if (!file) return;
+
+    setFileError(null);
+    try {
+      const fromFile = await readCteNumbersFromFile(file);
+      if (fromFile.length === 0) {
+        setFileError(`Nenhum número de CTE encontrado em "${file.name}".`);
+        return;
+      }
+      setText(fromFile.join('\n'));
+    } catch (err: any) {
+      console.error('Bulk list read failed:', err);
+      setFileError(err?.message || 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  const handleRun = async () => {
+    if (numbers.length === 0 || isRunning) return;
+
+    stopRef.current = false;
+    setIsRunning(true);
+    setRows(numbers.map(numero => ({ numero, status: 'pending' })));
+
+    await runBulkSearch(
+      numbers,
+      (index, row) => setRows(prev => prev.map((r, i) => i === index ? row : r)),
+      () => stopRef.current
+    );
+
+    setIsRunning(false);
+  };
+
+  const handleExport = () => {
+    downloadBlob(bulkRowsToCsv(rows), `conferencia_ctes_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  // Found documents as a ZIP with one PDF each
+  const handleZip = async () => {
+    const docs = rows
+      .filter(row => row.status === 'found' && row.pages?.length)
+      .map(row => ({ id: row.numero, serie: row.serie || 'N/A', pages: row.pages!, pdfPages: row.pdfPages, dataEmissao: row.dataEmissao }));
+    if (docs.length === 0 || zipProgress) return;
+
+    setZipProgress(`0/${docs.length}`);
+    try {
+      const { zip, failed } = await buildDocumentsZip(docs, (done, total) => setZipProgress(`${done}/${total}`));
+      if (zip) downloadBlob(zip, `ctes_conferencia_${new Date().toISOString().split('T')[0]}.zip`);
+      if (failed.length > 0) {
+        alert(`Não foi possível incluir: ${failed.map(doc => `CTE ${doc.id}`).join(', ')}.`);
+      }
+    } finally {
+      setZipProgress(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* List Input */}
+      <div className="space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={isRunning}
+          rows={6}
+          placeholder={"Cole os números (um por linha) ou colunas de uma planilha; com cabeçalho (CTE, Número, Chave), só essa coluna é lida.\nEx:\n1467\n126905"}
+          className="w-full rounded-xl border border-gray-300 dark:border-gray-600 bg-white dark:bg-brand-dark dark:text-white p-3 text-sm font-mono shadow-sm focus:ring-2 focus:ring-brand-primary"
+        />
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>{numbers.length} número(s) reconhecido(s)</span>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="flex items-center gap-1 text-brand-primary hover:underline disabled:opacity-50"
+          >
+            <FileSpreadsheet size={14} /> Importar CSV/XLSX
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={handleFile} />
+        </div>
+        {fileError && (
+          <div className="text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-2 rounded border border-red-200 dark:border-red-800">
+            {fileError}
+          </div>
+        )}
+      </div>
+
+      {isRunning ? (
+        <Button variant="secondary" onClick={() => { stopRef.current = true; }} className="bg-red-100 text-red-700 hover:bg-red-200 w-full">
+          <StopCircle className="mr-2" size={20} /> Parar ({doneCount}/{rows.length})
+        </Button>
+      ) : (
+        <Button variant="primary" onClick={handleRun} disabled={numbers.length === 0} fullWidth>
+          <Play className="mr-2" size={20} /> Verificar {numbers.length > 0 ? `(${numbers.length})` : ''}
+        </Button>
+      )}
+
+      {/* Report */}
+      {rows.length > 0 && (
+        <div className="bg-white dark:bg-brand-dark/50 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden animate-in fade-in">
+          <div className="p-3 border-b border-gray-100 dark:border-gray-700 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-green-600 font-bold">{foundCount} encontrado(s)</span>
+            <span className="text-red-500 font-bold">{missingCount} faltando</span>
+            {errorCount > 0 && <span className="text-amber-600 font-bold">{errorCount} com erro</span>}
+            <div className="flex-1" />
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={onlyMissing} onChange={(e) => setOnlyMissing(e.target.checked)} className="accent-brand-primary" />
+              Só pendências
+            </label>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isRunning}
+              className="flex items-center gap-1 text-xs text-brand-primary hover:underline disabled:opacity-50"
+            >
+              <Download size={14} /> CSV
+            </button>
+            {foundCount > 0 && (
+              <button
+                type="button"
+                onClick={handleZip}
+                disabled={isRunning || !!zipProgress}
+                className="flex items-center gap-1 text-xs text-brand-primary hover:underline disabled:opacity-50"
+              >
+                {zipProgress ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}
+                {zipProgress ? `Gerando ${zipProgress}` : 'ZIP'}
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 sticky top-0">
+                <tr>
+                  <th className="text-left px-3 py-2">Número</th>
+                  <th className="text-left px-3 py-2">Série</th>
+                  <th className="text-left px-3 py-2">Situação</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {visibleRows.map(row => (
+                  <tr key={row.numero}>
+                    <td className="px-3 py-2 font-mono font-bold text-gray-800 dark:text-gray-100">{row.numero}</td>
+                    <td className="px-3 py-2 text-gray-500">{row.serie || '-'}</td>
+                    <td className="px-3 py-2">
+                      <span className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                        {STATUS_ICONS[row.status]} {BULK_STATUS_LABELS[row.status]}
+                        {row.pageCount ? <span className="text-xs text-gray-400">({row.pageCount} pág.)</span> : null}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.status === 'found' && (
+                        <div className="flex items-center justify-end gap-2">
+                          <button type="button" onClick={() => onOpen(row.numero)} title="Visualizar" className="text-brand-primary hover:text-brand-focus">
+                            <Eye size={16} />
+                          </button>
+                          {row.link && (
+                            <a href={row.link} target="_blank" rel="noreferrer" title="Abrir no arquivo" className="text-gray-400 hover:text-brand-primary">
+                              <ExternalLink size={16} />
+                            </a>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,401 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, Image as ImageIcon, Loader2, ZoomIn, ZoomOut, RotateCcw, Download, FileText, FileDown, Maximize2 } from 'lucide-react';
+import { GroupedDoc } from '../../types';
+import { downloadBlob } from '../../lib/download';
+import { buildDocumentPdf, documentFileName } from '../../services/documentExport';
+import { isPdfUrl, renderPdfUrlToImages } from '../../utils/pdfConverter';
+import { ImageZoomModal } from '../BatchUploader/ImageZoomModal';
+
+interface DocumentViewerProps {
+  doc: GroupedDoc;
+  closeLabel: string; // "Lista" when there are other results to go back to
+  onClose: () => void;
+}
+
+// One screen of the viewer: an archived image, or one page of an archived PDF
+interface ViewerPage {
+  src?: string; // Undefined while the PDF renders, or when it cannot be rendered here
+  pdfUrl?: string; // The archived PDF this page belongs to
+}
+
+/**
+ * Multi-page viewer of one archived document: pan/zoom, page strip, full-screen zoom and downloads.
+ */
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ doc, closeLabel, onClose }) => {
+  const [currentPage, setCurrentPage] = useState(0);
+  const [zoomLevel, setZoomLevel] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [viewerPages, setViewerPages] = useState<ViewerPage[]>([]);
+  const [isRenderingPdf, setIsRenderingPdf] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const dragStartRef = useRef({ x: 0, y: 0 });
+
+  // A new document starts at its first page
+  useEffect(() => {
+    setCurrentPage(0);
+  }, [doc]);
+
+  // Reset zoom and pan when page or doc changes
+  useEffect(() => {
+    setZoomLevel(1);
+    setPan({ x: 0, y: 0 });
+  }, [currentPage, doc]);
+
+  // Expand the doc into viewer pages: archived PDFs are rendered page by page
+  useEffect(() => {
+    const pdfPages = doc.pdfPages || [];
+    setViewerPages(doc.pages.map(url => isPdfUrl(url, pdfPages) ? { pdfUrl: url } : { src: url }));
+    if (!doc.pages.some(url => isPdfUrl(url, pdfPages))) return;
+
+    let cancelled = false;
+    const renderedUrls: string[] = [];
+
+    const expandPdfs = async () => {
+      setIsRenderingPdf(true);
+      const pages: ViewerPage[] = [];
+      for (const url of doc.pages) {
+        if (!isPdfUrl(url, pdfPages)) {
+          pages.push({ src: url });
+          continue;
+        }
+        try {
+          const images = await renderPdfUrlToImages(url);
+          if (cancelled) {
+            images.forEach(image => URL.revokeObjectURL(image));
+            return;
+          }
+          renderedUrls.push(...images);
+          images.forEach(src => pages.push({ src, pdfUrl: url }));
+        } catch (err) {
+          // Typically CORS on a Drive link: the viewer falls back to opening the PDF
+          console.error('PDF render failed:', err);
+          pages.push({ pdfUrl: url });
+        }
+      }
+      if (cancelled) return;
+      setViewerPages(pages);
+      setIsRenderingPdf(false);
+    };
+    expandPdfs();
+
+    return () => {
+      cancelled = true;
+      renderedUrls.forEach(url => URL.revokeObjectURL(url));
+      setIsRenderingPdf(false);
+    };
+  }, [doc]);
+
+  // Reset pan when zoom returns to 1
+  useEffect(() => {
+    if (zoomLevel === 1) {
+        setPan({ x: 0, y: 0 });
+    }
+  }, [zoomLevel]);
+
+  const page = viewerPages[currentPage];
+
+  const handleNextPage = () => {
+    if (currentPage < viewerPages.length - 1) {
+      setCurrentPage(prev => prev + 1);
+    }
+  };
+
+  const handlePrevPage = () => {
+    if (currentPage > 0) {
+      setCurrentPage(prev => prev - 1);
+    }
+  };
+
+  // Zoom Handlers
+  const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.5, 4));
+  const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.5, 1));
+  const handleResetZoom = () => {
+      setZoomLevel(1);
+      setPan({ x: 0, y: 0 });
+  };
+
+  // Download Logic
+  const handleDownload = async () => {
+      if (!page) return;
+
+      setIsDownloading(true);
+
+      // Pages of an archived PDF download the original file
+      const fileUrl = page.pdfUrl || page.src!;
+
+      try {
+          const safeId = doc.id.replace(/[^a-z0-9]/gi, '_');
+          const filename = page.pdfUrl ? `CTE_${safeId}.pdf` : `CTE_${safeId}_Pg${currentPage + 1}.jpg`;
+
+          const response = await fetch(fileUrl, {
+              method: 'GET',
+              mode: 'cors',
+              cache: 'no-cache'
+          });
+
+          if (!response.ok) throw new Error("Falha ao baixar arquivo");
+
+          downloadBlob(await response.blob(), filename);
+
+      } catch (err) {
+          console.error(`Download failed:`, err);
+          window.open(fileUrl, '_blank');
+      } finally {
+          setIsDownloading(false);
+      }
+  };
+
+  // Whole document (every page) as one PDF
+  const handleDownloadDocumentPdf = async () => {
+      setIsDownloading(true);
+      try {
+          downloadBlob(await buildDocumentPdf(doc), documentFileName(doc));
+      } catch (err) {
+          console.error(`PDF export failed:`, err);
+          alert("Não foi possível montar o PDF (o arquivo bloqueou o acesso às páginas). Baixe as páginas uma a uma.");
+      } finally {
+          setIsDownloading(false);
+      }
+  };
+
+  // --- DRAG (PAN) HANDLERS ---
+  const handleMouseDown = (e: React.MouseEvent) => {
+      if (zoomLevel <= 1) return;
+      e.preventDefault();
+      setIsDragging(true);
+      dragStartRef.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      if (!isDragging) return;
+      e.preventDefault();
+      setPan({
+          x: e.clientX - dragStartRef.current.x,
+          y: e.clientY - dragStartRef.current.y
+      });
+  };
+
+  const handleMouseUp = () => setIsDragging(false);
+  const handleMouseLeave = () => setIsDragging(false);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+      if (zoomLevel <= 1) return;
+      setIsDragging(true);
+      const touch = e.touches[0];
+      dragStartRef.current = { x: touch.clientX - pan.x, y: touch.clientY - pan.y };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+      if (!isDragging) return;
+      if (e.cancelable) e.preventDefault();
+      const touch = e.touches[0];
+      setPan({
+          x: touch.clientX - dragStartRef.current.x,
+          y: touch.clientY - dragStartRef.current.y
+      });
+  };
+
+  const handleTouchEnd = () => setIsDragging(false);
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 pb-20">
+      <div className="bg-white dark:bg-brand-dark/50 backdrop-blur-sm rounded-xl border border-gray-200 dark:border-gray-700 shadow-lg overflow-hidden">
+
+        {/* Header */}
+        <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-gray-50 dark:bg-brand-dark">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-white">CTE {doc.id}</h2>
+            <p className="text-xs text-gray-500">Série {doc.serie} • {viewerPages.length} Páginas{isRenderingPdf ? ' (abrindo PDF...)' : ''}</p>
+          </div>
+          <div className="flex gap-2 items-center">
+            <button onClick={onClose} className="text-sm text-brand-primary underline hover:text-brand-focus mr-2">
+               {closeLabel}
+            </button>
+            <div className="bg-brand-primary/10 text-brand-primary text-xs font-bold px-2 py-1 rounded">
+                {currentPage + 1}/{viewerPages.length}
+            </div>
+          </div>
+        </div>
+
+        {/* Toolbar: Zoom & Download */}
+        <div className="flex items-center justify-between p-2 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+            <div className="flex items-center gap-1">
+                <div className="flex items-center bg-white dark:bg-gray-700 rounded-lg p-0.5 border border-gray-200 dark:border-gray-600 shadow-sm">
+                    <button
+                        onClick={handleZoomOut}
+                        className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-gray-600 dark:text-gray-300"
+                        title="Diminuir Zoom"
+                    >
+                        <ZoomOut size={16}/>
+                    </button>
+                    <span className="text-xs font-mono font-medium w-10 text-center text-gray-700 dark:text-gray-200">
+                        {Math.round(zoomLevel * 100)}%
+                    </span>
+                    <button
+                        onClick={handleZoomIn}
+                        className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-gray-600 dark:text-gray-300"
+                        title="Aumentar Zoom"
+                    >
+                        <ZoomIn size={16}/>
+                    </button>
+                    <div className="w-px h-4 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+                    <button
+                        onClick={handleResetZoom}
+                        className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-gray-600 dark:text-gray-300"
+                        title="Resetar"
+                    >
+                        <RotateCcw size={16}/>
+                    </button>
+                    <button
+                        onClick={() => setIsFullscreen(true)}
+                        disabled={!page?.src}
+                        className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-gray-600 dark:text-gray-300 disabled:opacity-40"
+                        title="Tela cheia"
+                    >
+                        <Maximize2 size={16}/>
+                    </button>
+                </div>
+            </div>
+            <div className="flex items-center gap-1">
+            <button
+                onClick={handleDownloadDocumentPdf}
+                disabled={isDownloading}
+                className="flex items-center gap-1 px-3 py-1.5 border border-brand-primary text-brand-primary text-xs font-bold rounded-lg hover:bg-brand-primary/10 transition-colors disabled:opacity-50"
+                title="Todas as páginas em um PDF"
+            >
+                <FileDown size={14} /> PDF completo
+            </button>
+            <button
+                onClick={handleDownload}
+                disabled={isDownloading || !page}
+                className="flex items-center gap-1 px-3 py-1.5 bg-brand-primary text-white text-xs font-bold rounded-lg hover:bg-brand-focus transition-colors shadow-sm disabled:opacity-50"
+            >
+                {isDownloading ? (
+                    <Loader2 size={14} className="animate-spin" />
+                ) : (
+                    <Download size={14} />
+                )}
+                {isDownloading
+                    ? 'Baixando...'
+                    : page?.pdfUrl
+                        ? 'Baixar PDF'
+                        : (viewerPages.length > 1 ? `Baixar Página ${currentPage + 1}` : 'Baixar')
+                }
+            </button>
+            </div>
+        </div>
+
+        {/* Image Canvas Container with DRAG HANDLERS */}
+        <div
+            className={`relative w-full aspect-[3/4] bg-gray-100 dark:bg-black/40 group overflow-hidden ${zoomLevel > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'}`}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
+            onTouchStart={handleTouchStart}
+            onTouchMove={handleTouchMove}
+            onTouchEnd={handleTouchEnd}
+        >
+          {/* Flex container to center image when zoom is 1 */}
+          <div className="w-full h-full flex items-center justify-center p-4">
+              {page?.src ? (
+                  <img
+                    src={page.src}
+                    alt={`Página ${currentPage + 1}`}
+                    draggable={false}
+                    onDoubleClick={() => setIsFullscreen(true)}
+                    style={{
+                        // Apply Translation AND Scale
+                        transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoomLevel})`,
+                        // Disable transition while dragging for performance/instant response
+                        transition: isDragging ? 'none' : 'transform 0.2s ease-out'
+                    }}
+                    className="max-w-full max-h-full object-contain shadow-lg select-none"
+                  />
+              ) : page?.pdfUrl ? (
+                  <div className="flex items-center justify-center h-full text-gray-400 flex-col gap-3">
+                      {isRenderingPdf ? (
+                          <>
+                              <Loader2 size={40} className="animate-spin opacity-40" />
+                              <span className="text-sm opacity-60">Abrindo PDF...</span>
+                          </>
+                      ) : (
+                          <>
+                              <FileText size={48} className="opacity-20" />
+                              <span className="text-sm opacity-60">Não foi possível exibir o PDF aqui</span>
+                              <a
+                                  href={page.pdfUrl}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="text-sm font-bold text-brand-primary underline hover:text-brand-focus"
+                              >
+                                  Abrir PDF
+                              </a>
+                          </>
+                      )}
+                  </div>
+              ) : (
+                  <div className="flex items-center justify-center h-full text-gray-400 flex-col gap-2">
+                      <ImageIcon size={48} className="opacity-20" />
+                      <span className="text-sm opacity-50">Imagem indisponível</span>
+                  </div>
+              )}
+          </div>
+
+          {/* Pagination Controls - Fixed relative to container to stay visible */}
+          {viewerPages.length > 1 && (
+            <>
+              {currentPage > 0 && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); handlePrevPage(); }}
+                    className="absolute left-3 top-1/2 -translate-y-1/2 w-10 h-10 bg-white/90 dark:bg-black/60 rounded-full flex items-center justify-center shadow-lg text-brand-primary dark:text-white z-20 hover:scale-110 transition-transform"
+                >
+                  <ChevronLeft size={24} />
+                </button>
+              )}
+              {currentPage < viewerPages.length - 1 && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); handleNextPage(); }}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 bg-white/90 dark:bg-black/60 rounded-full flex items-center justify-center shadow-lg text-brand-primary dark:text-white z-20 hover:scale-110 transition-transform"
+                >
+                  <ChevronRight size={24} />
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Page Strip */}
+        {viewerPages.length > 1 && (
+          <div className="flex gap-2 p-2 overflow-x-auto border-t border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+            {viewerPages.map((viewerPage, idx) => (
+              <button
+                key={idx}
+                onClick={() => setCurrentPage(idx)}
+                title={`Página ${idx + 1}`}
+                className={`relative shrink-0 w-12 aspect-[3/4] rounded border-2 overflow-hidden bg-white dark:bg-gray-700 transition-colors ${idx === currentPage ? 'border-brand-primary' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              >
+                {viewerPage.src ? (
+                  <img src={viewerPage.src} alt="" loading="lazy" draggable={false} className="w-full h-full object-cover" />
+                ) : (
+                  <FileText size={16} className="absolute inset-0 m-auto text-gray-400" />
+                )}
+                <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] leading-tight">{idx + 1}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Full-screen zoom (wheel / double tap) */}
+      <ImageZoomModal
+         isOpen={isFullscreen && !!page?.src}
+         imageUrl={page?.src || ''}
+         onClose={() => setIsFullscreen(false)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Calendar, Upload, User, X } from 'lucide-react';
+import { SearchQuery } from '../../types';
+import { toLocalIsoDate } from '../../lib/searchQuery';
+
+interface SearchFiltersProps {
+  value: SearchQuery;
+  onChange: (value: SearchQuery) => void;
+  onClear: () => void;
+}
+
+const inputClass = "w-full h-10 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-brand-dark dark:text-white px-2 text-sm";
+const labelClass = "block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1";
+const chipClass = "text-xs px-2 py-1 rounded-full border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-brand-primary hover:text-brand-primary transition-colors";
+
+// Helper: AAAA-MM-DD of today minus `days`, in local time
+const daysAgo = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toLocalIsoDate(date);
+};
+
+/**
+ * Structured filters of the archive search. Every field is optional; they combine (AND).
+ */
+export const SearchFilters: React.FC<SearchFiltersProps> = ({ value, onChange, onClear }) => {
+  const update = (changes: Partial<SearchQuery>) => onChange({ ...value, ...changes });
+
+  // Helper: From/to pair of inputs for one range
+  const rangeInputs = (type: 'text' | 'date', from: keyof SearchQuery, to: keyof SearchQuery) => (
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        type={type}
+        inputMode={type === 'text' ? 'numeric' : undefined}
+        value={value[from] || ''}
+        onChange={(e) => update({ [from]: type === 'text' ? e.target.value.replace(/\D/g, '') : e.target.value })}
+        placeholder="De"
+        className={inputClass}
+      />
+      <input
+        type={type}
+        inputMode={type === 'text' ? 'numeric' : undefined}
+        value={value[to] || ''}
+        onChange={(e) => update({ [to]: type === 'text' ? e.target.value.replace(/\D/g, '') : e.target.value })}
+        placeholder="Até"
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-3 p-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-brand-dark/50 space-y-3 animate-in fade-in slide-in-from-top-2">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="col-span-2">
+          <label className={labelClass}>Número (faixa)</label>
+          {rangeInputs('text', 'numeroFrom', 'numeroTo')}
+        </div>
+        <div>
+          <label className={labelClass}>Série</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={value.serie || ''}
+            onChange={(e) => update({ serie: e.target.value.replace(/\D/g, '') })}
+            placeholder="Ex: 307"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={`${labelClass} flex items-center gap-1`}><Calendar size={12} /> Emissão</label>
+        {rangeInputs('date', 'emissaoFrom', 'emissaoTo')}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className={`${labelClass} !mb-0 flex items-center gap-1`}><Upload size={12} /> Enviado em</label>
+          <div className="flex gap-1">
+            <button type="button" onClick={() => update({ uploadedFrom: daysAgo(0), uploadedTo: daysAgo(0) })} className={chipClass}>Hoje</button>
+            <button type="button" onClick={() => update({ uploadedFrom: daysAgo(1), uploadedTo: daysAgo(1) })} className={chipClass}>Ontem</button>
+            <button type="button" onClick={() => update({ uploadedFrom: daysAgo(6), uploadedTo: daysAgo(0) })} className={chipClass}>7 dias</button>
+          </div>
+        </div>
+        {rangeInputs('date', 'uploadedFrom', 'uploadedTo')}
+      </div>
+
+      <div>
+        <label className={`${labelClass} flex items-center gap-1`}><User size={12} /> Enviado por</label>
+        <input
+          type="text"
+          value={value.uploader || ''}
+          onChange={(e) => update({ uploader: e.target.value })}
+          placeholder="Nome de quem enviou"
+          className={inputClass}
+        />
+      </div>
+
+      <button type="button" onClick={onClear} className="text-xs text-red-500 hover:underline flex items-center gap-1">
+        <X size={12} /> Limpar filtros
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { AnyCanvas, getContext2D } from './canvas';
+import { CHAVE_LENGTH, isValidChave } from './chaveAcesso';
+
+// CODE-128 bar/space widths (in modules) for symbol values 0..105. Stop (106) is handled apart.
+const CODE128_PATTERNS: string[] = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+];
+
+const PATTERN_WIDTHS = CODE128_PATTERNS.map(p => p.split('').map(Number));
+const STOP_WIDTHS = [2, 3, 3, 1, 1, 1, 2];
+
+const START_C = 105;
+const FNC1 = 102;
+const MAX_ELEMENT_ERROR = 0.35; // Average deviation per bar/space, in modules
+const SCANLINES_PER_AXIS = 48;
+
+// Helper: Deviation between measured runs and a reference pattern, normalised to its module count
+const patternDistance = (runs: number[], offset: number, widths: number[]): number => {
+  const modules = widths.reduce((a, b) => a + b, 0);
+  let total = 0;
+  for (let i = 0; i < widths.length; i++) total += runs[offset + i];
+  if (total === 0) return Infinity;
+
+  const unit = total / modules;
+  let distance = 0;
+  for (let i = 0; i < widths.length; i++) {
+    distance += Math.abs(runs[offset + i] / unit - widths[i]);
+  }
+  return distance;
+};
+
+// Helper: Closest symbol value (or -1 if nothing is close enough) and its distance
+const matchSymbol = (runs: number[], offset: number): { value: number; distance: number } => {
+  let value = -1;
+  let distance = MAX_ELEMENT_ERROR * 6;
+  for (let candidate = 0; candidate < PATTERN_WIDTHS.length; candidate++) {
+    const d = patternDistance(runs, offset, PATTERN_WIDTHS[candidate]);
+    if (d < distance) {
+      distance = d;
+      value = candidate;
+    }
+  }
+  return { value, distance };
+};
+
+/**
+ * Decodes a CODE-128 set C symbol starting at `offset` (which must be a bar).
+ * Returns the digit string, or null if the checksum or structure does not hold.
+ */
+const decodeFrom = (runs: number[], offset: number): string | null => {
+  if (matchSymbol(runs, offset).value !== START_C) return null;
+
+  const values: number[] = [START_C];
+  let pos = offset + 6;
+
+  while (pos + 6 <= runs.length) {
+    const { value, distance } = matchSymbol(runs, pos);
+    const stopDistance = pos + 7 <= runs.length ? patternDistance(runs, pos, STOP_WIDTHS) : Infinity;
+
+    if (stopDistance < MAX_ELEMENT_ERROR * STOP_WIDTHS.length && stopDistance < distance) {
+      // Last value before the stop is the checksum
+      if (values.length < 3) return null;
+      const checksum = values.pop()!;
+      const sum = values.reduce((acc, v, i) => acc + v * (i === 0 ? 1 : i), 0);
+      if (sum % 103 !== checksum) return null;
+
+      return values
+        .slice(1)
+        .filter(v => v !== FNC1)
+        .map(v => String(v).padStart(2, '0'))
+        .join('');
+    }
+
+    // Only pure numeric (set C) payloads are expected on a DACTE
+    if (value < 0 || (value >= 100 && value !== FNC1)) return null;
+
+    values.push(value);
+    pos += 6;
+  }
+
+  return null;
+};
+
+// Helper: Binarise one scanline with a local-mean threshold and return run lengths starting at the first bar
+const toRuns = (line: number[]): number[] => {
+  const n = line.length;
+  const radius = Math.max(8, Math.floor(n / 80));
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + line[i];
+
+  const runs: number[] = [];
+  let current: boolean | null = null;
+  let length = 0;
+
+  for (let i = 0; i < n; i++) {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(n, i + radius + 1);
+    const mean = (prefix[to] - prefix[from]) / (to - from);
+    const dark = line[i] < mean - 4;
+
+    if (current === null) {
+      if (!dark) continue;
+      current = true;
+      length = 1;
+    } else if (dark === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = dark;
+      length = 1;
+    }
+  }
+  if (current !== null) runs.push(length);
+  return runs;
+};
+
+const decodeLine = (line: number[]): string | null => {
+  const attempt = (values: number[]): string | null => {
+    const runs = toRuns(values);
+    // Even indexes are bars
+    for (let i = 0; i + 6 <= runs.length; i += 2) {
+      const digits = decodeFrom(runs, i);
+      if (digits) return digits;
+    }
+    return null;
+  };
+
+  // Try both reading directions (the page may be upside down)
+  return attempt(line) || attempt(line.slice().reverse());
+};
+
+/**
+ * Scans horizontal and vertical lines of a canvas looking for a CODE-128C barcode
+ * that carries a valid 44-digit CT-e access key. Returns the key or null.
+ */
+export const decodeChaveFromCanvas = (canvas: AnyCanvas): string | null => {
+  if (canvas.width === 0 || canvas.height === 0) return null;
+  const ctx = getContext2D(canvas);
+
+  const { width, height } = canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Luminance (Rec. 601) for the whole frame
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+  }
+
+  const accept = (digits: string | null): string | null =>
+    digits && digits.length === CHAVE_LENGTH && isValidChave(digits) ? digits : null;
+
+  for (let s = 1; s <= SCANLINES_PER_AXIS; s++) {
+    const y = Math.floor((height * s) / (SCANLINES_PER_AXIS + 1));
+    const row: number[] = new Array(width);
+    for (let x = 0; x < width; x++) row[x] = gray[y * width + x];
+    const fromRow = accept(decodeLine(row));
+    if (fromRow) return fromRow;
+
+    const x = Math.floor((width * s) / (SCANLINES_PER_AXIS + 1));
+    const column: number[] = new Array(height);
+    for (let yy = 0; yy < height; yy++) column[yy] = gray[yy * width + x];
+    const fromColumn = accept(decodeLine(column));
+    if (fromColumn) return fromColumn;
+  }
+
+  return null;
+};
@@ -0,0 +1,64 @@
+import { BatchItem, BatchItemStatus } from '../types';
+import { STORES, withStore, promisifyRequest } from './indexedDb';
+
+// What actually lands in IndexedDB. Blob URLs die with the page, so they are not stored.
+interface StoredBatchItem extends Omit<BatchItem, 'previewUrl'> {
+  previewUrl?: string;
+  position: number;
+}
+
+// Items caught mid-flight when the tab died go back to a state the queues can pick up again
+const RESUMABLE_STATUS: Partial<Record<BatchItemStatus, BatchItemStatus>> = {
+  processing_image: 'queued',
+  pending_ai: 'queued',
+  analyzing_ai: 'queued',
+  uploading: 'ready',
+};
+
+// Helper: Only data URLs survive a reload
+const persistableUrl = (url?: string): string | undefined => url?.startsWith('data:') ? url : undefined;
+
+const toStored = (item: BatchItem, position: number): StoredBatchItem => ({
+  ...item,
+  previewUrl: persistableUrl(item.previewUrl),
+  extraPages: item.extraPages?.map(page => ({ ...page, previewUrl: persistableUrl(page.previewUrl) })),
+  uploadProgress: undefined,
+  position,
+});
+
+const fromStored = ({ position, ...stored }: StoredBatchItem): BatchItem => {
+  let status = RESUMABLE_STATUS[stored.status] || stored.status;
+  // An upload can only be resumed if the processed images survived
+  const pagesProcessed = (stored.extraPages || []).every(page => page.imagesStored);
+  if (status === 'ready' && (!stored.imagesStored || !pagesProcessed)) status = 'queued';
+
+  // Missing thumbnails are rebuilt by the batch's background generator
+  return { ...stored, status };
+};
+
+/**
+ * Restores the persisted batch queue, in its original order.
+ */
+export const loadBatchItems = async (): Promise<BatchItem[]> => {
+  const stored = await withStore(STORES.batchItems, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<StoredBatchItem[]>)
+  );
+  return stored
+    .sort((a, b) => a.position - b.position)
+    .map(fromStored);
+};
+
+/**
+ * Writes the given items (with their current position in the list) and drops removed ones.
+ */
+export const saveBatchItems = async (
+  changed: { item: BatchItem; position: number }[],
+  removedIds: string[]
+): Promise<void> => {
+  if (changed.length === 0 && removedIds.length === 0) return;
+
+  await withStore(STORES.batchItems, 'readwrite', store => {
+    changed.forEach(({ item, position }) => store.put(toStored(item, position)));
+    removedIds.forEach(id => store.delete(id));
+  });
+};
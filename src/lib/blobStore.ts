@@ -0,0 +1,92 @@
+import { STORES, withStore, promisifyRequest } from './indexedDb';
+
+// Processed images of the batch, out of React state. Keyed by page id: the item id for
+// page 1, BatchPage.id for the others.
+export type PageImageKind = 'ai' | 'archive';
+
+interface StoredPageImage {
+  id: string; // `${pageId}:${kind}`
+  blob: Blob;
+}
+
+const KINDS: PageImageKind[] = ['ai', 'archive'];
+
+// Used only when IndexedDB is unavailable (private mode): same API, lost on reload
+const memoryFallback = new Map<string, Blob>();
+
+const keyOf = (pageId: string, kind: PageImageKind) => `${pageId}:${kind}`;
+const pageIdOf = (key: string) => key.slice(0, key.lastIndexOf(':'));
+
+/**
+ * Stores the processed images of a page, replacing what was there (a missing archive
+ * image means the AI image is also the archival one).
+ */
+export const putPageImages = async (pageId: string, images: { ai: Blob; archive?: Blob }): Promise<void> => {
+  try {
+    await withStore(STORES.pageImages, 'readwrite', store => {
+      KINDS.forEach(kind => {
+        const blob = images[kind];
+        if (blob) store.put({ id: keyOf(pageId, kind), blob } as StoredPageImage);
+        else store.delete(keyOf(pageId, kind));
+      });
+    });
+  } catch (err) {
+    console.warn('[BlobStore] IndexedDB unavailable, keeping images in memory:', err);
+    KINDS.forEach(kind => {
+      const blob = images[kind];
+      if (blob) memoryFallback.set(keyOf(pageId, kind), blob);
+      else memoryFallback.delete(keyOf(pageId, kind));
+    });
+  }
+};
+
+export const getPageImage = async (pageId: string, kind: PageImageKind): Promise<Blob | undefined> => {
+  const inMemory = memoryFallback.get(keyOf(pageId, kind));
+  if (inMemory) return inMemory;
+  try {
+    const record = await withStore(STORES.pageImages, 'readonly', store =>
+      promisifyRequest(store.get(keyOf(pageId, kind)) as IDBRequest<StoredPageImage | undefined>)
+    );
+    return record?.blob;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The image that goes to the archive: the archival encoding when there is one, else the AI image.
+ */
+export const getArchiveImage = async (pageId: string): Promise<Blob | undefined> =>
+  (await getPageImage(pageId, 'archive')) || getPageImage(pageId, 'ai');
+
+export const deletePageImages = async (pageIds: string[]): Promise<void> => {
+  if (pageIds.length === 0) return;
+  pageIds.forEach(pageId => KINDS.forEach(kind => memoryFallback.delete(keyOf(pageId, kind))));
+  try {
+    await withStore(STORES.pageImages, 'readwrite', store => {
+      pageIds.forEach(pageId => KINDS.forEach(kind => store.delete(keyOf(pageId, kind))));
+    });
+  } catch (err) {
+    console.warn('[BlobStore] Could not delete images:', err);
+  }
+};
+
+/**
+ * Drops the images of every page not in `livePageIds` (left over by crashed sessions).
+ * Only safe before any processing starts: a page being processed is stored before it is live.
+ */
+export const prunePageImages = async (livePageIds: Set<string>): Promise<void> => {
+  Array.from(memoryFallback.keys()).forEach(key => {
+    if (!livePageIds.has(pageIdOf(key))) memoryFallback.delete(key);
+  });
+  try {
+    await withStore(STORES.pageImages, 'readwrite', async store => {
+      const keys = await promisifyRequest(store.getAllKeys());
+      keys.forEach(key => {
+        if (!livePageIds.has(pageIdOf(String(key)))) store.delete(key);
+      });
+    });
+  } catch (err) {
+    console.warn('[BlobStore] Could not prune images:', err);
+  }
+};
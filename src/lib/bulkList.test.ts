@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { computeChaveDv } from './chaveAcesso';
+import { extractCteNumbers, parseCteNumbersText } from './bulkList';
+
+// SP, 2025/01, CNPJ, modelo 57, série 1, nCT 126905
+const first43 = '35' + '2501' + '12345678000199' + '57' + '001' + '000126905' + '1' + '12345678';
+const CHAVE = first43 + computeChaveDv(first43);
+
+describe('parseCteNumbersText', () => {
+  it('does not split on commas when the line uses ";" or tabs', () => {
+    expect(parseCteNumbersText('Valor;CTE\n1.234,56;126905\n99,90;126906')).toEqual(['126905', '126906']);
+    expect(parseCteNumbersText('1.234,56\t126905')).toEqual(['126905']);
+  });
+
+  it('skips amounts with decimal separators', () => {
+    expect(parseCteNumbersText('1.234,56;126905')).toEqual(['126905']);
+    expect(parseCteNumbersText('12.50,126905')).toEqual(['126905']);
+  });
+
+  it('keeps números written with thousands dots and access keys in groups of 4', () => {
+    expect(parseCteNumbersText('000.126.905')).toEqual(['126905']);
+    expect(parseCteNumbersText(CHAVE.replace(/(\d{4})(?=\d)/g, '$1 '))).toEqual(['126905']);
+  });
+
+  it('reads one document per line: the first número of a comma-separated row', () => {
+    expect(parseCteNumbersText('126905,126906')).toEqual(['126905']);
+    expect(parseCteNumbersText('126905\n126906\n126905')).toEqual(['126905', '126906']);
+  });
+});
+
+describe('extractCteNumbers', () => {
+  it('reads only the column under a CTE/Número/nCT header', () => {
+    const rows = [
+      ['Pedido', 'Nº CT-e', 'Emissão'],
+      ['5001', '126905', '02/01/2025'],
+      ['5002', '126906', '03/01/2025']
+    ];
+    expect(extractCteNumbers(rows)).toEqual(['126905', '126906']);
+    expect(extractCteNumbers([['nCT', 'Pedido'], ['7', '5001']])).toEqual(['7']);
+  });
+
+  it('falls back to the access key column when there is no número column', () => {
+    expect(extractCteNumbers([['Pedido', 'Chave de acesso'], ['5001', CHAVE]])).toEqual(['126905']);
+  });
+
+  it('treats a row holding a número as data even if a cell says CTE', () => {
+    expect(extractCteNumbers([['CTE', '126905'], ['CTE', '126906']])).toEqual(['126905', '126906']);
+  });
+
+  it('picks the column again at the next header (another worksheet)', () => {
+    const rows = [
+      ['CTE', 'Pedido'], ['126905', '5001'],
+      ['Pedido', 'Número'], ['5002', '126906']
+    ];
+    expect(extractCteNumbers(rows)).toEqual(['126905', '126906']);
+  });
+
+  it('without a header takes the first número of each row', () => {
+    expect(extractCteNumbers([['Frete', '126905', '5001'], ['', '126906']])).toEqual(['126905', '126906']);
+  });
+});
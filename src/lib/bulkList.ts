@@ -0,0 +1,126 @@
+import { parseChave } from './chaveAcesso';
+import { readZipEntries } from './zip';
+
+// A CT-e número has at most 9 digits (nCT in the access key)
+const MAX_NUMERO_DIGITS = 9;
+
+// Header cells naming the número column ("CTE", "Nº CT-e", "Número do CTe", "nCT") and the
+// access key column; when a header row is found only that column is read
+const NUMERO_HEADER = /^(n[º°o.]*\s*)?(n[uú]mero\s*)?(d[oa]\s*)?(ct-?e|nct|n[uú]mero)$/i;
+const CHAVE_HEADER = /^chave(\s*(de\s*)?acesso)?(\s*(d[oa]\s*)?ct-?e)?$/i;
+
+// Helper: One row of a CSV/pasted line; auditors' files use ';' (Excel pt-BR), tabs or ','.
+// Commas only split a line that has neither ';' nor tabs: there they are decimal separators.
+const splitCells = (line: string): string[] => {
+  const separator = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+  return line.split(separator).map(cell => cell.replace(/^"|"$/g, '').trim());
+};
+
+// Helper: Número of one cell: plain digits, digits grouped by thousands dots ("000.126.905")
+// or a valid access key (spaces allowed). Amounts ("1.234,56", "12.5") give ''.
+const numeroOfCell = (cell: string): string => {
+  const compact = cell.replace(/\s/g, '');
+  const chave = parseChave(compact);
+  if (chave) return chave.numero;
+  if (!/^\d+$/.test(compact) && !/^\d{1,3}(\.\d{3})+$/.test(compact)) return '';
+  const digits = compact.replace(/\./g, '');
+  return digits.length <= MAX_NUMERO_DIGITS ? digits.replace(/^0+/, '') : '';
+};
+
+// Helper: Column of a header row (número first, else access key), or -1 when the row is data.
+// A row holding a número is data even if a cell says "CTE" (e.g. a document type column).
+const headerColumn = (row: string[]): number => {
+  if (row.some(cell => numeroOfCell(cell))) return -1;
+  const numero = row.findIndex(cell => NUMERO_HEADER.test(cell.trim()));
+  return numero >= 0 ? numero : row.findIndex(cell => CHAVE_HEADER.test(cell.trim()));
+};
+
+/**
+ * CTE números found in spreadsheet-like rows, in order and without repeats. After a header row
+ * (CTE, Número, nCT, Chave...) only that column is read; without one, the first cell of each row
+ * that is a número or a valid 44-digit access key counts. Dates and amounts are skipped.
+ */
+export const extractCteNumbers = (rows: string[][]): string[] => {
+  const numbers: string[] = [];
+  const seen = new Set<string>();
+  let column = -1;
+
+  rows.forEach(row => {
+    const header = headerColumn(row);
+    if (header >= 0) {
+      // A new header (e.g. the next worksheet) picks the column again
+      column = header;
+      return;
+    }
+
+    const cells = column >= 0 ? [row[column] || ''] : row;
+    const numero = cells.map(numeroOfCell).find(Boolean);
+    if (numero && !seen.has(numero)) {
+      seen.add(numero);
+      numbers.push(numero);
+    }
+  });
+
+  return numbers;
+};
+
+/**
+ * Pasted text or CSV content: one document per line (or several separated by spaces).
+ */
+export const parseCteNumbersText = (text: string): string[] =>
+  extractCteNumbers(
+    text
+      .split(/\r?\n/)
+      .flatMap(line => {
+        if (/[;\t,]/.test(line)) return [splitCells(line)];
+        // An access key printed in groups of 4 is one value; otherwise each word is its own row
+        const compact = line.replace(/\s/g, '');
+        return /^\d{44}$/.test(compact) ? [[compact]] : line.trim().split(/\s+/).map(cell => [cell]);
+      })
+  );
+
+// Helper: Cell texts of every row of one XLSX worksheet
+const readSheetRows = (xml: string, sharedStrings: string[]): string[][] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(doc.getElementsByTagName('row')).map(row =>
+    Array.from(row.getElementsByTagName('c')).map(cell => {
+      const type = cell.getAttribute('t');
+      if (type === 'inlineStr') return cell.getElementsByTagName('t')[0]?.textContent || '';
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+      return type === 's' ? (sharedStrings[Number(value)] || '') : value;
+    })
+  );
+};
+
+/**
+ * Rows of every worksheet of an XLSX file (cell texts only; formulas give their cached value).
+ */
+export const readXlsxRows = async (file: Blob): Promise<string[][]> => {
+  const entries = await readZipEntries(file, name => name === 'xl/sharedStrings.xml' || /^xl\/worksheets\/sheet\d+\.xml$/.test(name));
+  const decoder = new TextDecoder();
+
+  const sharedStrings: string[] = [];
+  const stringsXml = entries.get('xl/sharedStrings.xml');
+  if (stringsXml) {
+    const doc = new DOMParser().parseFromString(decoder.decode(stringsXml), 'application/xml');
+    // A shared string may be split in rich-text runs (<r><t>..</t></r>)
+    Array.from(doc.getElementsByTagName('si')).forEach(si => {
+      sharedStrings.push(Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+    });
+  }
+
+  const sheetNumber = (name: string) => Number(name.match(/sheet(\d+)\.xml$/)![1]);
+  return Array.from(entries.keys())
+    .filter(name => name.startsWith('xl/worksheets/'))
+    .sort((a, b) => sheetNumber(a) - sheetNumber(b))
+    .flatMap(name => readSheetRows(decoder.decode(entries.get(name)!), sharedStrings));
+};
+
+/**
+ * CTE números of an uploaded list: XLSX, or CSV/TXT read as text.
+ */
+export const readCteNumbersFromFile = async (file: File): Promise<string[]> => {
+  if (/\.xlsx$/i.test(file.name)) return extractCteNumbers(await readXlsxRows(file));
+  if (/\.xls$/i.test(file.name)) throw new Error('Formato .xls antigo não suportado. Salve como .xlsx ou .csv.');
+  return parseCteNumbersText(await file.text());
+};
@@ -0,0 +1,41 @@
+// Live analysis runs on a tiny copy of the video frame; enough to judge motion and focus
+export const FRAME_ANALYSIS_WIDTH = 160;
+
+export interface FrameStats {
+  gray: Float32Array;
+  sharpness: number; // Laplacian variance at FRAME_ANALYSIS_WIDTH (not comparable with ImageQuality.sharpness)
+}
+
+/**
+ * Grayscale copy and focus measure of what is currently drawn on a small canvas.
+ */
+export const measureFrame = (ctx: CanvasRenderingContext2D, width: number, height: number): FrameStats => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+
+  let sum = 0, sumSq = 0, count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+  return { gray, sharpness: count > 0 ? sumSq / count - mean * mean : 0 };
+};
+
+/**
+ * Mean absolute luminance change between two frames of the same size (0-255).
+ */
+export const frameDifference = (a: Float32Array, b: Float32Array): number => {
+  if (a.length !== b.length || a.length === 0) return 255;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff += Math.abs(a[i] - b[i]);
+  return diff / a.length;
+};
@@ -0,0 +1,40 @@
+// Canvas helpers that work both on the page and inside a Web Worker (no DOM there)
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * OffscreenCanvas when the runtime has it (always the case in our worker), else a DOM canvas.
+ */
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext2D = (canvas: AnyCanvas, options?: CanvasRenderingContext2DSettings): AnyContext2D => {
+  const ctx = (canvas as OffscreenCanvas).getContext('2d', options) as AnyContext2D | null;
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx;
+};
+
+export const canvasToBlob = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas to Blob conversion failed')), type, quality);
+  });
+};
+
+/**
+ * Raw base64 (no data URL prefix) of a Blob. Only for the moment bytes leave the browser.
+ */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked: String.fromCharCode on the whole buffer overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
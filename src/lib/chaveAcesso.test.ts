@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { computeChaveDv, findChaveMismatches, isValidChave, parseChave } from './chaveAcesso';
+
+// SP, 2025/01, CNPJ 12345678000199, modelo 57, série 1, nCT 126905, tpEmis 1, cCT 12345678, DV 0
+const CHAVE = '35250112345678000199570010001269051123456780';
+
+describe('computeChaveDv', () => {
+  it('gives the mod-11 digit, weights 2..9 from the right', () => {
+    expect(computeChaveDv(CHAVE.slice(0, 43))).toBe('0');
+    // Only the last digit counts, weight 2: 11 - 2 = 9
+    expect(computeChaveDv('0'.repeat(42) + '1')).toBe('9');
+    // Weight 3: 11 - 3 = 8
+    expect(computeChaveDv('0'.repeat(41) + '10')).toBe('8');
+  });
+});
+
+describe('isValidChave', () => {
+  it('accepts a key with the right check digit, also as printed in groups of 4', () => {
+    expect(isValidChave(CHAVE)).toBe(true);
+    expect(isValidChave(CHAVE.replace(/(\d{4})(?=\d)/g, '$1 '))).toBe(true);
+  });
+
+  it('rejects a wrong check digit, a wrong length and another modelo', () => {
+    expect(isValidChave(CHAVE.slice(0, 43) + '1')).toBe(false);
+    expect(isValidChave(CHAVE.slice(0, 43))).toBe(false);
+
+    const nfe = CHAVE.slice(0, 20) + '55' + CHAVE.slice(22, 43);
+    expect(isValidChave(nfe + computeChaveDv(nfe))).toBe(false);
+  });
+
+  it('splits a valid key into its fields and refuses an invalid one', () => {
+    expect(parseChave(CHAVE)).toMatchObject({ uf: '35', ano: '25', mes: '01', serie: '1', numero: '126905' });
+    expect(parseChave(CHAVE.slice(0, 43) + '1')).toBeNull();
+  });
+});
+
+describe('findChaveMismatches', () => {
+  it('reports nothing when número, série and emission month match the key', () => {
+    expect(findChaveMismatches({ numeroDoc: '000126905', serie: '001', dataEmissao: '15/01/2025', chaveAcesso: CHAVE })).toEqual([]);
+  });
+
+  it('reports each field that differs from the key', () => {
+    expect(findChaveMismatches({ numeroDoc: '126906', serie: '2', dataEmissao: '15/02/2025', chaveAcesso: CHAVE })).toEqual([
+      'Número difere da chave (126905).',
+      'Série difere da chave (1).',
+      'Mês de emissão difere da chave (01/2025).'
+    ]);
+  });
+
+  it('leaves empty fields to the incomplete check', () => {
+    expect(findChaveMismatches({ numeroDoc: '', serie: '', dataEmissao: '', chaveAcesso: CHAVE })).toEqual([]);
+  });
+
+  it('flags a key whose check digit does not match', () => {
+    expect(findChaveMismatches({ numeroDoc: '126905', serie: '1', dataEmissao: '', chaveAcesso: CHAVE.slice(0, 43) + '1' }))
+      .toEqual(['Chave de acesso inválida (dígito verificador).']);
+  });
+});
@@ -0,0 +1,131 @@
+import { ExtractedData } from '../types';
+
+// Layout of the 44-digit CT-e access key (Manual de Orientação do Contribuinte CT-e):
+// cUF(2) AAMM(4) CNPJ(14) mod(2) serie(3) nCT(9) tpEmis(1) cCT(8) cDV(1)
+export const CHAVE_LENGTH = 44;
+const MODELO_CTE = '57';
+
+export interface ChaveAcessoInfo {
+  chave: string;
+  uf: string;
+  ano: string; // 2 digits (AA)
+  mes: string; // 2 digits (MM)
+  cnpjEmitente: string;
+  modelo: string;
+  serie: string; // Without leading zeros
+  numero: string; // Without leading zeros
+  tipoEmissao: string;
+  codigoNumerico: string;
+  digitoVerificador: string;
+}
+
+// Helper: Keep digits only (the DACTE prints the key in groups of 4)
+export const normalizeChave = (value: string): string => (value || '').replace(/\D/g, '');
+
+// Helper: Group the key in blocks of 4 digits, as printed on the DACTE
+export const formatChave = (value: string): string => normalizeChave(value).replace(/(\d{4})(?=\d)/g, '$1 ');
+
+const stripLeadingZeros = (value: string): string => value.replace(/^0+/, '') || '0';
+
+/**
+ * Computes the mod-11 check digit over the first 43 digits (weights 2..9 from the right).
+ */
+export const computeChaveDv = (first43: string): string => {
+  let weight = 2;
+  let sum = 0;
+  for (let i = first43.length - 1; i >= 0; i--) {
+    sum += Number(first43[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const dv = 11 - (sum % 11);
+  return String(dv >= 10 ? 0 : dv);
+};
+
+/**
+ * True if the value has 44 digits, modelo 57 and a matching check digit.
+ */
+export const isValidChave = (value: string): boolean => {
+  const chave = normalizeChave(value);
+  if (chave.length !== CHAVE_LENGTH) return false;
+  if (chave.slice(20, 22) !== MODELO_CTE) return false;
+  return computeChaveDv(chave.slice(0, 43)) === chave[43];
+};
+
+/**
+ * Splits a valid access key into its fields. Returns null if the key does not validate.
+ */
+export const parseChave = (value: string): ChaveAcessoInfo | null => {
+  const chave = normalizeChave(value);
+  if (!isValidChave(chave)) return null;
+
+  return {
+    chave,
+    uf: chave.slice(0, 2),
+    ano: chave.slice(2, 4),
+    mes: chave.slice(4, 6),
+    cnpjEmitente: chave.slice(6, 20),
+    modelo: chave.slice(20, 22),
+    serie: stripLeadingZeros(chave.slice(22, 25)),
+    numero: stripLeadingZeros(chave.slice(25, 34)),
+    tipoEmissao: chave.slice(34, 35),
+    codigoNumerico: chave.slice(35, 43),
+    digitoVerificador: chave.slice(43),
+  };
+};
+
+/**
+ * Lists the disagreements between the access key and the fields read from the document.
+ * Empty fields are not reported (they are caught by the "incomplete" validation).
+ */
+export const findChaveMismatches = (data: ExtractedData): string[] => {
+  if (!data.chaveAcesso) return [];
+
+  const info = parseChave(data.chaveAcesso);
+  if (!info) return ['Chave de acesso inválida (dígito verificador).'];
+
+  const reasons: string[] = [];
+  const numero = data.numeroDoc ? stripLeadingZeros(data.numeroDoc) : '';
+  const serie = data.serie ? stripLeadingZeros(data.serie) : '';
+
+  if (numero && numero !== info.numero) {
+    reasons.push(`Número difere da chave (${info.numero}).`);
+  }
+  if (serie && serie !== info.serie) {
+    reasons.push(`Série difere da chave (${info.serie}).`);
+  }
+
+  const [, mes, ano] = (data.dataEmissao || '').split('/');
+  if (mes && ano && ano.length === 4 && (mes.padStart(2, '0') !== info.mes || ano.slice(2) !== info.ano)) {
+    reasons.push(`Mês de emissão difere da chave (${info.mes}/20${info.ano}).`);
+  }
+
+  return reasons;
+};
+
+/**
+ * Builds the document fields straight from a decoded access key.
+ * The key carries only the month/year of emission, so the date is left empty and the
+ * item is flagged for review: the operator types the day before it can be uploaded.
+ */
+export const dataFromChave = (info: ChaveAcessoInfo): ExtractedData => ({
+  numeroDoc: info.numero,
+  serie: info.serie,
+  dataEmissao: '',
+  chaveAcesso: info.chave,
+  needsReview: true,
+  reviewReasons: [`A chave só traz o mês de emissão (${info.mes}/20${info.ano}). Informe o dia.`],
+  source: 'barcode',
+});
+
+/**
+ * Re-evaluates the review flag using the access key. `baseNeedsReview` carries any flag
+ * raised elsewhere (e.g. the model finding the image blurry).
+ */
+export const applyChaveCheck = (data: ExtractedData, baseNeedsReview: boolean = false): ExtractedData => {
+  const reviewReasons = findChaveMismatches(data);
+  return {
+    ...data,
+    reviewReasons,
+    needsReview: baseNeedsReview || reviewReasons.length > 0,
+  };
+};
@@ -0,0 +1,96 @@
+import { ExtractedData } from '../types';
+import { isValidChave, normalizeChave } from './chaveAcesso';
+
+export interface CteXmlDoc {
+  fileName: string;
+  data: ExtractedData;
+}
+
+// Helper: First element with the given local name, regardless of namespace prefix
+const firstText = (root: Document | Element, localName: string): string => {
+  const el = root.getElementsByTagNameNS('*', localName)[0];
+  return el?.textContent?.trim() || '';
+};
+
+// Helper: "2025-03-10T14:22:00-03:00" -> "10/03/2025" (date part only, no timezone shift)
+const formatDhEmi = (dhEmi: string): string => {
+  const match = dhEmi.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : '';
+};
+
+export const isXmlFile = (file: File): boolean =>
+  file.type === 'text/xml' || file.type === 'application/xml' || /\.xml$/i.test(file.name);
+
+/**
+ * Parses an authorised CT-e XML (procCTe, or a bare CTe) into the batch data shape.
+ */
+export const parseCteXml = (xmlText: string, fileName: string = ''): CteXmlDoc => {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`XML inválido: ${fileName}`);
+  }
+
+  const infCte = doc.getElementsByTagNameNS('*', 'infCte')[0];
+  if (!infCte) {
+    throw new Error(`Arquivo não é um CT-e: ${fileName}`);
+  }
+
+  // Prefer the key from the authorisation protocol; fall back to infCte Id="CTe<44 digits>"
+  const chave = normalizeChave(firstText(doc, 'chCTe') || infCte.getAttribute('Id') || '');
+  const numeroDoc = firstText(infCte, 'nCT').replace(/\D/g, '').replace(/^0+/, '');
+  const serie = firstText(infCte, 'serie').replace(/\D/g, '').replace(/^0+/, '') || '0';
+  const dataEmissao = formatDhEmi(firstText(infCte, 'dhEmi'));
+
+  if (!numeroDoc) {
+    throw new Error(`CT-e sem número (nCT): ${fileName}`);
+  }
+
+  return {
+    fileName,
+    data: {
+      numeroDoc,
+      serie,
+      dataEmissao,
+      chaveAcesso: isValidChave(chave) ? chave : undefined,
+      needsReview: false,
+      reviewReasons: [],
+      source: 'xml',
+    },
+  };
+};
+
+export const readCteXmlFile = async (file: File): Promise<CteXmlDoc> => {
+  const text = await file.text();
+  return parseCteXml(text, file.name);
+};
+
+/**
+ * Finds the XML that belongs to a scanned document: by access key first, then by
+ * número + série, then by an access key embedded in the scanned file name.
+ */
+export const findMatchingXml = (
+  xmlDocs: CteXmlDoc[],
+  data: ExtractedData,
+  fileName: string = ''
+): CteXmlDoc | undefined => {
+  if (xmlDocs.length === 0) return undefined;
+
+  if (data.chaveAcesso) {
+    const byChave = xmlDocs.find(x => x.data.chaveAcesso === data.chaveAcesso);
+    if (byChave) return byChave;
+  }
+
+  if (data.numeroDoc && data.serie) {
+    const numero = data.numeroDoc.replace(/^0+/, '');
+    const serie = data.serie.replace(/^0+/, '') || '0';
+    const byNumero = xmlDocs.find(x => x.data.numeroDoc === numero && x.data.serie === serie);
+    if (byNumero) return byNumero;
+  }
+
+  const nameDigits = fileName.replace(/\D/g, '');
+  if (nameDigits.length >= 44) {
+    return xmlDocs.find(x => x.data.chaveAcesso && nameDigits.includes(x.data.chaveAcesso));
+  }
+
+  return undefined;
+};
@@ -0,0 +1,76 @@
+import { BatchItem, ExtractedData, GroupedDoc } from '../types';
+import { isSimilarHash } from './imageHash';
+
+// Helper: Identity of a document in the archive (número + série, no leading zeros)
+export const docKey = (data: ExtractedData): string =>
+  `${(data.numeroDoc || '').replace(/^0+/, '')}|${(data.serie || '').replace(/^0+/, '')}`;
+
+/**
+ * Ids of items whose número + série appear more than once in the batch.
+ * Items without a número are ignored (they are caught as incomplete).
+ */
+export const findBatchDuplicateIds = (items: BatchItem[]): Set<string> => {
+  const byKey = new Map<string, string[]>();
+  items.forEach(item => {
+    if (!item.data.numeroDoc) return;
+    const key = docKey(item.data);
+    byKey.set(key, [...(byKey.get(key) || []), item.id]);
+  });
+
+  const duplicates = new Set<string>();
+  byKey.forEach(ids => {
+    if (ids.length > 1) ids.forEach(id => duplicates.add(id));
+  });
+  return duplicates;
+};
+
+/**
+ * True when the archive already holds this document and the operator has not said what to do.
+ * A half-sent item resuming its upload finds its own pages there: that is not a duplicate.
+ */
+export const needsArchiveDecision = (item: BatchItem): boolean =>
+  !item.uploadedPageCount &&
+  !!item.archiveCheck &&
+  item.archiveCheck.key === docKey(item.data) &&
+  item.archiveCheck.existingPages > 0 &&
+  !item.duplicateAction;
+
+// Helper: Hashes of every processed page of an item (page 1 and extra pages)
+const itemHashes = (item: BatchItem): string[] =>
+  [item.imageHash, ...(item.extraPages || []).map(p => p.imageHash)].filter((h): h is string => !!h);
+
+const itemLabel = (item: BatchItem): string =>
+  item.data.numeroDoc ? `CTE ${item.data.numeroDoc}/${item.data.serie || '?'}` : item.file.name;
+
+/**
+ * For each item, labels of other documents (in the batch or already archived) that have a page
+ * looking like one of its pages. Pairs with the same número/série are skipped: that case is
+ * already reported as a número duplicate.
+ */
+export const findSimilarImages = (items: BatchItem[], archivedDocs: GroupedDoc[] = []): Map<string, string[]> => {
+  const similar = new Map<string, string[]>();
+  const add = (id: string, label: string) => {
+    const labels = similar.get(id) || [];
+    if (!labels.includes(label)) similar.set(id, [...labels, label]);
+  };
+  const sameDoc = (a: ExtractedData, b: ExtractedData) => !!a.numeroDoc && !!b.numeroDoc && docKey(a) === docKey(b);
+  const anySimilar = (a: string[], b: string[]) => a.some(x => b.some(y => isSimilarHash(x, y)));
+
+  const hashed = items.map(item => ({ item, hashes: itemHashes(item) })).filter(h => h.hashes.length > 0);
+
+  hashed.forEach((a, i) => {
+    hashed.slice(i + 1).forEach(b => {
+      if (sameDoc(a.item.data, b.item.data) || !anySimilar(a.hashes, b.hashes)) return;
+      add(a.item.id, itemLabel(b.item));
+      add(b.item.id, itemLabel(a.item));
+    });
+
+    archivedDocs.forEach(doc => {
+      if (!doc.pageHashes || doc.pageHashes.length === 0) return;
+      if (sameDoc(a.item.data, { numeroDoc: doc.id, serie: doc.serie, dataEmissao: '' })) return;
+      if (anySimilar(a.hashes, doc.pageHashes)) add(a.item.id, `CTE ${doc.id}/${doc.serie} (arquivado)`);
+    });
+  });
+
+  return similar;
+};
@@ -0,0 +1,55 @@
+import { AnyCanvas, createCanvas, getContext2D } from './canvas';
+
+// Difference hash (dHash): 9x8 grayscale thumbnail, one bit per horizontal neighbour pair = 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Up to this many differing bits (of 64) two images are treated as the same photo.
+// Kept strict: DACTEs share one printed layout, so only a re-compressed/resized copy of the
+// same photo should match. Archived candidates are further limited to the batch's números.
+export const SIMILAR_HASH_DISTANCE = 3;
+
+/**
+ * Perceptual hash of what is drawn on the canvas, as 16 hex chars.
+ * Survives JPEG recompression and resizing, not rotation (hash the final, rotated canvas).
+ */
+export const computeImageHash = (source: AnyCanvas): string => {
+  const small = createCanvas(HASH_WIDTH, HASH_HEIGHT);
+  const ctx = getContext2D(small, { willReadFrequently: true });
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    // One row = 8 bits = 2 hex chars
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const isSimilarHash = (a?: string, b?: string): boolean =>
+  !!a && !!b && hammingDistance(a, b) <= SIMILAR_HASH_DISTANCE;
@@ -0,0 +1,167 @@
+import { CropQuad, ImageQuality, OutputSettings, ProcessedImage } from '../types';
+import { decodeChaveFromCanvas } from './barcodeDecoder';
+import { AnyCanvas, createCanvas, getContext2D } from './canvas';
+import { computeImageHash } from './imageHash';
+import { assessImageQuality } from './imageQuality';
+import { detectOrientation, MIN_ORIENTATION_CONFIDENCE } from './orientation';
+import { encodeCanvas, isSameProfile, THUMBNAIL_PROFILE } from './outputProfiles';
+import { detectImageQuad, isFullFrame, warpPerspective } from './perspective';
+
+// What the pipeline should find out by itself before processing
+export interface ImageDetection {
+  rotation?: boolean; // Read the rotation from the text lines; `rotation` is used when unsure
+  crop?: boolean; // Find the sheet edges when no crop is given
+}
+
+export interface ImagePipelineRequest {
+  file: Blob;
+  rotation: number; // Clockwise degrees
+  crop?: CropQuad;
+  settings: OutputSettings; // Passed in: workers have no localStorage
+  detect?: ImageDetection;
+}
+
+// Helper: Downscaled copy of a canvas (the same canvas when it already fits)
+const fitCanvas = (source: AnyCanvas, maxSide: number): AnyCanvas => {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  if (scale === 1) return source;
+  const canvas = createCanvas(Math.max(1, Math.floor(source.width * scale)), Math.max(1, Math.floor(source.height * scale)));
+  getContext2D(canvas, { alpha: false }).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Crop -> rotate -> resize -> local checks -> encode. No DOM access, so it runs the same
+ * inside the image worker and, as a fallback, on the page. The result is structured-clone
+ * friendly (Blobs only): it crosses the worker boundary as is.
+ */
+export const runImagePipeline = async ({ file, rotation, crop, settings, detect = {} }: ImagePipelineRequest): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    // Detection runs here, on the bitmap already decoded, so it never blocks the page
+    let detectedRotation: number | undefined;
+    if (detect.rotation) {
+      const guess = detectOrientation(bitmap);
+      if (guess.confidence >= MIN_ORIENTATION_CONFIDENCE) {
+        detectedRotation = guess.rotation;
+        rotation = guess.rotation;
+      }
+    }
+    let detectedCrop: CropQuad | undefined;
+    if (detect.crop && !crop) {
+      detectedCrop = detectImageQuad(bitmap) || undefined;
+      crop = detectedCrop;
+    }
+
+    // Work at the largest size any output needs; each output is scaled down from it
+    const MAX_WIDTH = Math.max(settings.ai.maxSide, settings.archive.maxSide);
+
+    // 0. Perspective crop: flatten the sheet before anything else sees it
+    let source: ImageBitmap | AnyCanvas = bitmap;
+    if (crop && !isFullFrame(crop)) {
+      try {
+        source = warpPerspective(bitmap, crop, MAX_WIDTH);
+      } catch (err) {
+        console.warn('Perspective crop failed', err);
+      }
+    }
+
+    // 1. Resize Logic (Robust)
+    let width = source.width;
+    let height = source.height;
+
+    // Ensure we check BOTH dimensions to prevent massive canvases
+    if (width > MAX_WIDTH || height > MAX_WIDTH) {
+      const ratio = Math.min(MAX_WIDTH / width, MAX_WIDTH / height);
+      width = Math.floor(width * ratio);
+      height = Math.floor(height * ratio);
+    }
+
+    // 2. Setup Canvas based on Rotation
+    // Normalize rotation to 0-360 positive
+    const normRot = (rotation % 360 + 360) % 360;
+    const isSideways = normRot === 90 || normRot === 270;
+
+    // If sideways, width becomes height and height becomes width
+    const canvas = isSideways ? createCanvas(height, width) : createCanvas(width, height);
+    const ctx = getContext2D(canvas, { alpha: false }); // Optimize for no alpha channel
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // 3. Center Rotation Logic (Proven & Robust)
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((normRot * Math.PI) / 180);
+    // Always draw using the SCALED original dimensions, centered around (0,0) of the rotated context
+    ctx.drawImage(source, -width / 2, -height / 2, width, height);
+    ctx.restore();
+
+    // Checks below run on exactly what the model will see
+    const aiCanvas = fitCanvas(canvas, settings.ai.maxSide);
+
+    // 4. Local barcode read (cheap compared to an AI call). Never fails the pipeline.
+    let barcodeChave: string | undefined;
+    try {
+      barcodeChave = decodeChaveFromCanvas(aiCanvas) || undefined;
+    } catch (err) {
+      console.warn('Barcode decode failed', err);
+    }
+
+    // 5. Perceptual hash of the final (rotated) image, to spot the same photo sent twice
+    let imageHash: string | undefined;
+    try {
+      imageHash = computeImageHash(aiCanvas);
+    } catch (err) {
+      console.warn('Image hash failed', err);
+    }
+
+    // 6. Quality metrics (blur, light, contrast, size) so bad photos can be retaken before AI
+    let quality: ImageQuality | undefined;
+    try {
+      quality = assessImageQuality(aiCanvas);
+    } catch (err) {
+      console.warn('Quality check failed', err);
+    }
+
+    // 7. Compression: AI image, grid thumbnail, plus the archival one when its profile differs
+    const aiImage = await encodeCanvas(aiCanvas, settings.ai);
+    const thumbnail = await encodeCanvas(aiCanvas, THUMBNAIL_PROFILE);
+    const archiveImage = isSameProfile(settings.ai, settings.archive)
+      ? undefined
+      : await encodeCanvas(canvas, settings.archive);
+
+    return {
+      blob: aiImage.blob,
+      thumbBlob: thumbnail.blob,
+      width: aiImage.width,
+      height: aiImage.height,
+      sizeKb: aiImage.sizeKb,
+      barcodeChave,
+      imageHash,
+      quality,
+      archiveBlob: archiveImage?.blob,
+      detectedRotation,
+      detectedCrop
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Grid thumbnail of an image as it is (no crop or rotation). The browser decodes straight
+ * to the small size, so even large photos stay cheap.
+ */
+export const createThumbnail = async (file: Blob): Promise<Blob> => {
+  // Height only: the width follows the aspect ratio
+  const bitmap = await createImageBitmap(file, { resizeHeight: THUMBNAIL_PROFILE.maxSide, resizeQuality: 'medium' });
+  try {
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    getContext2D(canvas, { alpha: false }).drawImage(bitmap, 0, 0);
+    return (await encodeCanvas(canvas, THUMBNAIL_PROFILE)).blob;
+  } finally {
+    bitmap.close();
+  }
+};
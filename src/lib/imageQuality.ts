@@ -0,0 +1,80 @@
+import { ImageQuality } from '../types';
+import { AnyCanvas, createCanvas, getContext2D } from './canvas';
+
+// Measured on a copy this wide so the blur score does not depend on the photo resolution
+const ANALYSIS_WIDTH = 800;
+
+// Laplacian variance: below POOR the text is smeared, below FAIR digits start to merge
+const BLUR_POOR = 60;
+const BLUR_FAIR = 150;
+// Mean luminance (0-255)
+const DARK_LIMIT = 70;
+const BRIGHT_LIMIT = 235;
+// Luminance standard deviation: a printed page on paper is well above this
+const CONTRAST_LIMIT = 30;
+// Shortest side of the processed image, in pixels
+const MIN_RESOLUTION = 700;
+
+/**
+ * Local quality metrics of a processed page (no network). Issues are ready to show to the operator.
+ */
+export const assessImageQuality = (source: AnyCanvas): ImageQuality => {
+  const scale = Math.min(1, ANALYSIS_WIDTH / source.width);
+  const width = Math.max(3, Math.round(source.width * scale));
+  const height = Math.max(3, Math.round(source.height * scale));
+
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas, { willReadFrequently: true });
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    sum += gray[i];
+  }
+  const brightness = sum / gray.length;
+
+  let variance = 0;
+  for (let i = 0; i < gray.length; i++) variance += (gray[i] - brightness) ** 2;
+  const contrast = Math.sqrt(variance / gray.length);
+
+  // 4-neighbour Laplacian, interior pixels only
+  let lapSum = 0, lapSqSum = 0, count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      count++;
+    }
+  }
+  const lapMean = lapSum / count;
+  const sharpness = lapSqSum / count - lapMean * lapMean;
+
+  const issues: string[] = [];
+  let level: ImageQuality['level'] = 'good';
+  const flag = (issue: string, severity: 'fair' | 'poor') => {
+    issues.push(issue);
+    if (severity === 'poor' || level === 'good') level = severity;
+  };
+
+  if (sharpness < BLUR_POOR) flag('Imagem borrada', 'poor');
+  else if (sharpness < BLUR_FAIR) flag('Pouco nítida', 'fair');
+  if (brightness < DARK_LIMIT) flag('Muito escura', 'poor');
+  else if (brightness > BRIGHT_LIMIT) flag('Muito clara', 'fair');
+  if (contrast < CONTRAST_LIMIT) flag('Pouco contraste', 'poor');
+  if (Math.min(source.width, source.height) < MIN_RESOLUTION) flag('Resolução baixa', 'fair');
+
+  return {
+    sharpness: Math.round(sharpness),
+    brightness: Math.round(brightness),
+    contrast: Math.round(contrast),
+    width: source.width,
+    height: source.height,
+    level,
+    issues
+  };
+};
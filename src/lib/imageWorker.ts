@@ -0,0 +1,22 @@
+import { ProcessedImage } from '../types';
+import { ImagePipelineRequest, runImagePipeline } from './imagePipeline';
+
+export interface ImageWorkerResponse {
+  result?: ProcessedImage;
+  error?: string;
+}
+
+// Worker scope, typed loosely: the project compiles against the DOM lib only
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ImagePipelineRequest>) => void) | null;
+  postMessage: (message: ImageWorkerResponse) => void;
+};
+
+// One request at a time; the pool never sends a second one before the answer
+scope.onmessage = async (event) => {
+  try {
+    scope.postMessage({ result: await runImagePipeline(event.data) });
+  } catch (err: any) {
+    scope.postMessage({ error: err?.message || 'Falha ao tratar imagem' });
+  }
+};
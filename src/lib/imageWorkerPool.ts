@@ -0,0 +1,71 @@
+import { ProcessedImage } from '../types';
+import { ImagePipelineRequest, runImagePipeline } from './imagePipeline';
+import type { ImageWorkerResponse } from './imageWorker';
+
+// Leave a core for the page itself; more than 3 full-size canvases at once costs too much memory
+export const IMAGE_WORKER_COUNT = Math.max(1, Math.min(3, (navigator.hardwareConcurrency || 2) - 1));
+
+interface PendingTask {
+  request: ImagePipelineRequest;
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PendingTask | null;
+}
+
+const queue: PendingTask[] = [];
+let pool: PoolWorker[] | null = null;
+
+const isSupported = (): boolean => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const spawn = (): PoolWorker => {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' }),
+    task: null
+  };
+
+  entry.worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+    const task = entry.task;
+    entry.task = null;
+    if (event.data.result) task?.resolve(event.data.result);
+    else task?.reject(new Error(event.data.error || 'Falha ao tratar imagem'));
+    dispatch();
+  };
+
+  // A crashed worker (out of memory, script error) is replaced; its task fails alone
+  entry.worker.onerror = (event) => {
+    event.preventDefault();
+    const task = entry.task;
+    entry.worker.terminate();
+    pool = pool!.map(e => e === entry ? spawn() : e);
+    task?.reject(new Error(event.message || 'Falha ao tratar imagem'));
+    dispatch();
+  };
+
+  return entry;
+};
+
+const dispatch = () => {
+  if (!pool) pool = Array.from({ length: IMAGE_WORKER_COUNT }, spawn);
+  for (const entry of pool) {
+    if (entry.task || queue.length === 0) continue;
+    entry.task = queue.shift()!;
+    entry.worker.postMessage(entry.task.request);
+  }
+};
+
+/**
+ * Runs the image pipeline on the next free worker (queued while all are busy).
+ * Falls back to the page thread where workers cannot draw (no OffscreenCanvas).
+ */
+export const runInImageWorker = (request: ImagePipelineRequest): Promise<ProcessedImage> => {
+  if (!isSupported()) return runImagePipeline(request);
+
+  return new Promise((resolve, reject) => {
+    queue.push({ request, resolve, reject });
+    dispatch();
+  });
+};
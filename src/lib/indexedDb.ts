@@ -0,0 +1,82 @@
+// Minimal promise wrapper around the browser IndexedDB API.
+// A single database holds every local store used by the app; bump DB_VERSION
+// and register the store in STORES whenever a new one is needed.
+
+const DB_NAME = 'ctes-assinados';
+const DB_VERSION = 4;
+
+export const STORES = {
+  batchItems: 'batch_items',
+  archivePages: 'archive_pages',
+  pageImages: 'page_images',
+  searchCache: 'search_cache',
+  viewedDocs: 'viewed_docs',
+  viewedPages: 'viewed_pages',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades, if needed) the shared database. The connection is cached.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open IndexedDB'));
+  }).catch(err => {
+    // Allow a later call to try again (e.g. private mode toggled)
+    dbPromise = null;
+    throw err;
+  });
+
+  return dbPromise;
+};
+
+// Helper: Wrap a single IDBRequest in a Promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs `work` inside a transaction and resolves once the transaction commits.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+};
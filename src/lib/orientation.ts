@@ -0,0 +1,187 @@
+import { createCanvas, getContext2D } from './canvas';
+
+export interface OrientationGuess {
+  rotation: number; // Clockwise rotation that makes the page upright: 0, 90, 180 or 270
+  confidence: number; // 0..1
+}
+
+// Working size: enough to resolve text lines on a full A4 page, cheap to scan twice
+const ANALYSIS_MAX_SIDE = 800;
+// Below this the guess is discarded and the caller's default rotation is used
+export const MIN_ORIENTATION_CONFIDENCE = 0.5;
+
+// Line detection limits, in pixels at the analysis size
+const MIN_LINE_HEIGHT = 3;
+const MAX_LINE_HEIGHT = 40;
+const MIN_LINES = 5;
+
+// Helper: Otsu threshold on a grayscale buffer
+const otsuThreshold = (gray: Uint8ClampedArray | Uint8Array): number => {
+  const hist = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) hist[gray[i]]++;
+
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  let sumBack = 0, weightBack = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBack += hist[t];
+    if (weightBack === 0) continue;
+    const weightFore = gray.length - weightBack;
+    if (weightFore === 0) break;
+    sumBack += t * hist[t];
+    const meanBack = sumBack / weightBack;
+    const meanFore = (sumAll - sumBack) / weightFore;
+    const between = weightBack * weightFore * (meanBack - meanFore) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Ink mask without the long straight runs (table borders, barcode bars): those show up in
+ * both projections and would drown the text lines.
+ */
+const textInk = (gray: Uint8ClampedArray | Uint8Array, width: number, height: number): Uint8Array => {
+  const threshold = otsuThreshold(gray);
+  const ink = new Uint8Array(width * height);
+  for (let i = 0; i < ink.length; i++) ink[i] = gray[i] <= threshold ? 1 : 0;
+
+  const maxRun = Math.max(12, Math.round(Math.max(width, height) / 25));
+  const keep = ink.slice();
+  const clearRuns = (count: number, length: number, index: (line: number, pos: number) => number) => {
+    for (let line = 0; line < count; line++) {
+      let start = -1;
+      for (let pos = 0; pos <= length; pos++) {
+        const isInk = pos < length && ink[index(line, pos)] === 1;
+        if (isInk && start < 0) start = pos;
+        if (!isInk && start >= 0) {
+          if (pos - start > maxRun) {
+            for (let k = start; k < pos; k++) keep[index(line, k)] = 0;
+          }
+          start = -1;
+        }
+      }
+    }
+  };
+  clearRuns(height, width, (y, x) => y * width + x);
+  clearRuns(width, height, (x, y) => y * width + x);
+  return keep;
+};
+
+// Helper: Squared coefficient of variation; high when the profile alternates between lines and gaps
+const profileContrast = (profile: number[]): number => {
+  const mean = profile.reduce((a, b) => a + b, 0) / profile.length;
+  if (mean === 0) return 0;
+  const variance = profile.reduce((acc, v) => acc + (v - mean) ** 2, 0) / profile.length;
+  return variance / (mean * mean);
+};
+
+/**
+ * Which way is "down" along the profile. Latin text has its dense x-height band sitting on
+ * the baseline with only sparse ascenders above, so each line is heavier on its lower side.
+ * Returns +1 (down = increasing index), -1 or 0, and how consistent the lines were.
+ */
+const lineDirection = (profile: number[]): { sign: number; agreement: number; lines: number } => {
+  const sorted = profile.filter(v => v > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return { sign: 0, agreement: 0, lines: 0 };
+  const threshold = sorted[Math.floor(sorted.length * 0.95)] * 0.1;
+
+  let weighted = 0, totalMass = 0, lines = 0;
+  const scores: { score: number; mass: number }[] = [];
+
+  let start = -1;
+  for (let i = 0; i <= profile.length; i++) {
+    const inLine = i < profile.length && profile[i] > threshold;
+    if (inLine && start < 0) start = i;
+    if (!inLine && start >= 0) {
+      const length = i - start;
+      if (length >= MIN_LINE_HEIGHT && length <= MAX_LINE_HEIGHT) {
+        const band = Math.max(1, Math.floor(length / 3));
+        let top = 0, bottom = 0, mass = 0;
+        for (let k = 0; k < band; k++) {
+          top += profile[start + k];
+          bottom += profile[i - 1 - k];
+        }
+        for (let k = start; k < i; k++) mass += profile[k];
+        if (top + bottom > 0) {
+          const score = (bottom - top) / (bottom + top);
+          scores.push({ score, mass });
+          weighted += score * mass;
+          totalMass += mass;
+          lines++;
+        }
+      }
+      start = -1;
+    }
+  }
+
+  if (lines === 0 || totalMass === 0) return { sign: 0, agreement: 0, lines };
+  const sign = Math.sign(weighted);
+  const agreeing = scores.filter(s => Math.sign(s.score) === sign).reduce((acc, s) => acc + s.mass, 0);
+  return { sign, agreement: agreeing / totalMass, lines };
+};
+
+/**
+ * Estimates the page orientation from a grayscale buffer (one byte per pixel) by text-line analysis.
+ */
+export const estimateOrientation = (gray: Uint8ClampedArray | Uint8Array, width: number, height: number): OrientationGuess => {
+  const ink = textInk(gray, width, height);
+
+  const rows = new Array(height).fill(0);
+  const cols = new Array(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (ink[y * width + x]) {
+        rows[y]++;
+        cols[x]++;
+      }
+    }
+  }
+
+  // 1. Axis: text lines make the profile across them alternate much more than the one along them
+  const rowContrast = profileContrast(rows);
+  const colContrast = profileContrast(cols);
+  const horizontal = rowContrast >= colContrast;
+  const ratio = horizontal ? rowContrast / (colContrast || 1e-6) : colContrast / (rowContrast || 1e-6);
+  const axisConfidence = Math.min(1, Math.max(0, (ratio - 1) / 1.5));
+
+  // 2. Direction along that axis
+  const { sign, agreement, lines } = lineDirection(horizontal ? rows : cols);
+  if (sign === 0 || lines < MIN_LINES) return { rotation: 0, confidence: 0 };
+  const directionConfidence = Math.max(0, (agreement - 0.5) * 2);
+
+  // Down pointing +y: upright. -y: upside down. +x (right): turned CCW, so rotate 90 CW. -x: rotate 270.
+  const rotation = horizontal ? (sign > 0 ? 0 : 180) : (sign > 0 ? 90 : 270);
+  return { rotation, confidence: Math.min(axisConfidence, directionConfidence) };
+};
+
+/**
+ * Detects the clockwise rotation (0/90/180/270) that makes a scanned page readable.
+ * Canvas work only (no DOM), so it runs inside the image worker on the decoded bitmap.
+ * Never throws: unreadable images come back with confidence 0.
+ */
+export const detectOrientation = (image: CanvasImageSource & { width: number; height: number }): OrientationGuess => {
+  try {
+    const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(image.width, image.height));
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const gray = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    }
+    return estimateOrientation(gray, width, height);
+  } catch (err) {
+    console.warn('Orientation detection failed', err);
+    return { rotation: 0, confidence: 0 };
+  }
+};
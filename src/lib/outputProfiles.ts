@@ -0,0 +1,84 @@
+import { OutputProfile, OutputSettings } from '../types';
+import { AnyCanvas, canvasToBlob, createCanvas, getContext2D } from './canvas';
+
+// Per-browser settings, edited in the Configurações view
+export const OUTPUT_SETTINGS_KEY = 'output_settings';
+
+// AI keeps the historical values (1280px, JPEG 0.70); the archive keeps a sharper copy
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  ai: { maxSide: 1280, quality: 0.70, format: 'image/jpeg', grayscale: false },
+  archive: { maxSide: 2400, quality: 0.85, format: 'image/jpeg', grayscale: false },
+  pdfRenderScale: 2.0,
+  keepOriginalPdf: false
+};
+
+// Batch grid thumbnails: a card is ~150px wide, twice that for high-density screens
+export const THUMBNAIL_PROFILE: OutputProfile = { maxSide: 320, quality: 0.7, format: 'image/jpeg', grayscale: false };
+
+export const getOutputSettings = (): OutputSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OUTPUT_SETTINGS_KEY) || '{}');
+    return {
+      ai: { ...DEFAULT_OUTPUT_SETTINGS.ai, ...stored.ai },
+      archive: { ...DEFAULT_OUTPUT_SETTINGS.archive, ...stored.archive },
+      pdfRenderScale: stored.pdfRenderScale || DEFAULT_OUTPUT_SETTINGS.pdfRenderScale,
+      keepOriginalPdf: stored.keepOriginalPdf ?? DEFAULT_OUTPUT_SETTINGS.keepOriginalPdf
+    };
+  } catch {
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+};
+
+export const saveOutputSettings = (settings: OutputSettings) => {
+  localStorage.setItem(OUTPUT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isSameProfile = (a: OutputProfile, b: OutputProfile): boolean =>
+  a.maxSide === b.maxSide && a.quality === b.quality && a.format === b.format && a.grayscale === b.grayscale;
+
+export interface EncodedImage {
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  sizeKb: number;
+}
+
+/**
+ * Encodes a canvas with a profile: downscale, optional grayscale, JPEG/WebP.
+ * Browsers without a WebP encoder fall back to JPEG.
+ */
+export const encodeCanvas = async (source: AnyCanvas, profile: OutputProfile): Promise<EncodedImage> => {
+  const scale = Math.min(1, profile.maxSide / Math.max(source.width, source.height));
+  let canvas = source;
+
+  if (scale < 1 || profile.grayscale) {
+    canvas = createCanvas(Math.max(1, Math.floor(source.width * scale)), Math.max(1, Math.floor(source.height * scale)));
+    const ctx = getContext2D(canvas, { alpha: false, willReadFrequently: profile.grayscale });
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    if (profile.grayscale) {
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const d = image.data;
+      for (let i = 0; i < d.length; i += 4) {
+        const y = d[i] * 0.299 + d[i + 1] * 0.587 + d[i + 2] * 0.114;
+        d[i] = d[i + 1] = d[i + 2] = y;
+      }
+      ctx.putImageData(image, 0, 0);
+    }
+  }
+
+  // An unsupported type comes back as PNG
+  let blob = await canvasToBlob(canvas, profile.format, profile.quality);
+  if (blob.type !== profile.format) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', profile.quality);
+  }
+
+  return {
+    blob,
+    mimeType: blob.type,
+    width: canvas.width,
+    height: canvas.height,
+    sizeKb: Math.round(blob.size / 1024)
+  };
+};
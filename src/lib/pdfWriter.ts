@@ -0,0 +1,115 @@
+import { canvasToBlob, createCanvas, getContext2D } from './canvas';
+
+// Minimal PDF writer: one JPEG per page, embedded as is (DCTDecode), so nothing is re-compressed.
+
+export interface JpegPage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  components: 1 | 3; // Gray or RGB
+}
+
+// Page width in points (A4 = 595pt); the height follows the image's aspect ratio
+const PAGE_WIDTH_PT = 595;
+// Quality when a page has to be converted to JPEG first (WebP, PNG, CMYK JPEG)
+const REENCODE_QUALITY = 0.92;
+
+/**
+ * Size and colour components from a JPEG's frame header (SOFn), or null when it is not a
+ * baseline/progressive JPEG the PDF can embed directly.
+ */
+export const readJpegInfo = (bytes: Uint8Array): Omit<JpegPage, 'bytes'> | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+
+    // SOF0..SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+      const components = bytes[offset + 9];
+      return components === 1 || components === 3 ? { width, height, components } : null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Any image Blob as an embeddable JPEG: JPEGs pass through, other formats are re-encoded.
+ */
+export const toJpegPage = async (image: Blob): Promise<JpegPage> => {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  const info = readJpegInfo(bytes);
+  if (info) return { bytes, ...info };
+
+  const bitmap = await createImageBitmap(image);
+  try {
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    const ctx = getContext2D(canvas, { alpha: false });
+    ctx.fillStyle = 'white'; // Transparent PNG areas would turn black
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0);
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', REENCODE_QUALITY)).arrayBuffer());
+    return { bytes: jpeg, width: bitmap.width, height: bitmap.height, components: 3 };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * One PDF with a page per JPEG, in order.
+ */
+export const buildPdfFromJpegs = (pages: JpegPage[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = []; // Byte offset of each object, for the xref table
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, then per page: page, content stream, image
+  const pageId = (index: number) => 3 + index * 3;
+  write('%PDF-1.4\n%âãÏÓ\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const width = PAGE_WIDTH_PT;
+    const height = Math.round(PAGE_WIDTH_PT * page.height / page.width * 100) / 100;
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    writeObject(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    writeObject(id + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(id + 2, `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /${page.components === 1 ? 'DeviceGray' : 'DeviceRGB'} /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.bytes.length} >>`, page.bytes);
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,255 @@
+import { CropQuad } from '../types';
+import { AnyCanvas, createCanvas, getContext2D } from './canvas';
+
+// Corner detection runs on a small copy; the paper outline does not need more
+const DETECTION_MAX_SIDE = 320;
+// Source resolution used for the warp (the result is resized to the JPEG size afterwards)
+const WARP_SOURCE_MAX_SIDE = 2400;
+// Paper covering less than this is probably not the document; more means it is already framed
+const MIN_PAPER_AREA = 0.2;
+const MAX_PAPER_AREA = 0.9;
+
+export const FULL_FRAME_QUAD: CropQuad = [
+  { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }
+];
+
+export const isFullFrame = (quad: CropQuad): boolean =>
+  quad.every((p, i) => Math.abs(p.x - FULL_FRAME_QUAD[i].x) < 0.005 && Math.abs(p.y - FULL_FRAME_QUAD[i].y) < 0.005);
+
+// Helper: Draw any image source on a canvas no larger than maxSide
+const drawScaled = (source: CanvasImageSource & { width: number; height: number }, maxSide: number): AnyCanvas => {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const canvas = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  const ctx = getContext2D(canvas, { willReadFrequently: true });
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Helper: Otsu threshold over a grayscale buffer
+const otsu = (gray: Float32Array): number => {
+  const hist = new Array(256).fill(0);
+  gray.forEach(v => hist[Math.min(255, Math.max(0, Math.round(v)))]++);
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  let sumBack = 0, weightBack = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBack += hist[t];
+    if (weightBack === 0) continue;
+    const weightFore = gray.length - weightBack;
+    if (weightFore === 0) break;
+    sumBack += t * hist[t];
+    const between = weightBack * weightFore * (sumBack / weightBack - (sumAll - sumBack) / weightFore) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// Helper: Box blur (radius 2) so the printed text does not split the paper into pieces
+const blur = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const out = new Float32Array(gray.length);
+  const r = 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0, count = 0;
+      for (let dy = -r; dy <= r; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= height) continue;
+        for (let dx = -r; dx <= r; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= width) continue;
+          sum += gray[yy * width + xx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+/**
+ * Finds the four corners of the sheet of paper in a photo: largest bright region, then its
+ * extreme points along the diagonals. Returns null when no clear sheet stands out (scans,
+ * PDFs, photos already framed on the page).
+ */
+export const findPaperQuad = (canvas: AnyCanvas): CropQuad | null => {
+  const { width, height } = canvas;
+  const { data } = getContext2D(canvas, { willReadFrequently: true }).getImageData(0, 0, width, height);
+
+  const raw = new Float32Array(width * height);
+  for (let i = 0; i < raw.length; i++) {
+    raw[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  const gray = blur(raw, width, height);
+  const threshold = otsu(gray);
+
+  // Largest 4-connected bright component
+  const label = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let bestLabel = -1, bestSize = 0;
+  for (let start = 0, current = 0; start < gray.length; start++) {
+    if (label[start] !== -1 || gray[start] <= threshold) continue;
+    let head = 0, tail = 0, size = 0;
+    queue[tail++] = start;
+    label[start] = current;
+    while (head < tail) {
+      const idx = queue[head++];
+      size++;
+      const x = idx % width, y = (idx - x) / width;
+      const neighbours = [x > 0 ? idx - 1 : -1, x < width - 1 ? idx + 1 : -1, y > 0 ? idx - width : -1, y < height - 1 ? idx + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && label[n] === -1 && gray[n] > threshold) {
+          label[n] = current;
+          queue[tail++] = n;
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = current;
+    }
+    current++;
+  }
+
+  const coverage = bestSize / (width * height);
+  if (bestLabel < 0 || coverage < MIN_PAPER_AREA || coverage > MAX_PAPER_AREA) return null;
+
+  // Extreme points: tl = min(x+y), tr = max(x-y), br = max(x+y), bl = max(y-x)
+  let tl = 0, tr = 0, br = 0, bl = 0;
+  let tlScore = Infinity, trScore = -Infinity, brScore = -Infinity, blScore = -Infinity;
+  for (let idx = 0; idx < label.length; idx++) {
+    if (label[idx] !== bestLabel) continue;
+    const x = idx % width, y = (idx - x) / width;
+    if (x + y < tlScore) { tlScore = x + y; tl = idx; }
+    if (x - y > trScore) { trScore = x - y; tr = idx; }
+    if (x + y > brScore) { brScore = x + y; br = idx; }
+    if (y - x > blScore) { blScore = y - x; bl = idx; }
+  }
+
+  const toPoint = (idx: number) => ({ x: (idx % width) / (width - 1), y: Math.floor(idx / width) / (height - 1) });
+  const quad: CropQuad = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+
+  // A degenerate outline (blob, not a sheet) is worse than no crop at all
+  return quadArea(quad) >= MIN_PAPER_AREA * 0.8 ? quad : null;
+};
+
+// Helper: Shoelace area of a normalized quad (1 = whole frame)
+const quadArea = (quad: CropQuad): number => {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i], b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Detects the document outline in a decoded image (the image worker passes its bitmap).
+ * Never throws: returns null when unsure.
+ */
+export const detectImageQuad = (image: CanvasImageSource & { width: number; height: number }): CropQuad | null => {
+  try {
+    return findPaperQuad(drawScaled(image, DETECTION_MAX_SIDE));
+  } catch (err) {
+    console.warn('Document edge detection failed', err);
+    return null;
+  }
+};
+
+/**
+ * Detects the document outline in an image file. Never throws: returns null when unsure.
+ */
+export const detectDocumentQuad = async (file: Blob): Promise<CropQuad | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    try {
+      return detectImageQuad(bitmap);
+    } finally {
+      bitmap.close();
+    }
+  } catch (err) {
+    console.warn('Document edge detection failed', err);
+    return null;
+  }
+};
+
+/**
+ * Projective map from the unit square to the quad (Heckbert's closed form).
+ * Corners map in order: (0,0) -> tl, (1,0) -> tr, (1,1) -> br, (0,1) -> bl.
+ */
+const squareToQuad = (q: { x: number; y: number }[]) => {
+  const [p0, p1, p2, p3] = q;
+  const sx = p0.x - p1.x + p2.x - p3.x;
+  const sy = p0.y - p1.y + p2.y - p3.y;
+
+  let a, b, c, d, e, f, g, h;
+  if (Math.abs(sx) < 1e-9 && Math.abs(sy) < 1e-9) {
+    a = p1.x - p0.x; b = p2.x - p1.x; c = p0.x;
+    d = p1.y - p0.y; e = p2.y - p1.y; f = p0.y;
+    g = 0; h = 0;
+  } else {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    g = (sx * dy2 - dx2 * sy) / den;
+    h = (dx1 * sy - sx * dy1) / den;
+    a = p1.x - p0.x + g * p1.x; b = p3.x - p0.x + h * p3.x; c = p0.x;
+    d = p1.y - p0.y + g * p1.y; e = p3.y - p0.y + h * p3.y; f = p0.y;
+  }
+
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+/**
+ * Flattens the quad (normalized corners on the source image) into a rectangular canvas
+ * whose longest side is at most maxSide. Bilinear sampling.
+ */
+export const warpPerspective = (
+  image: CanvasImageSource & { width: number; height: number },
+  quad: CropQuad,
+  maxSide: number
+): AnyCanvas => {
+  const source = drawScaled(image, WARP_SOURCE_MAX_SIDE);
+  const sw = source.width, sh = source.height;
+  const srcData = getContext2D(source, { willReadFrequently: true }).getImageData(0, 0, sw, sh).data;
+
+  const corners = quad.map(p => ({ x: p.x * (sw - 1), y: p.y * (sh - 1) }));
+  const dist = (i: number, j: number) => Math.hypot(corners[i].x - corners[j].x, corners[i].y - corners[j].y);
+  let outW = Math.max(dist(0, 1), dist(3, 2));
+  let outH = Math.max(dist(0, 3), dist(1, 2));
+  const scale = Math.min(1, maxSide / Math.max(outW, outH));
+  outW = Math.max(1, Math.round(outW * scale));
+  outH = Math.max(1, Math.round(outH * scale));
+
+  const map = squareToQuad(corners);
+  const out = createCanvas(outW, outH);
+  const outCtx = getContext2D(out);
+  const outImage = outCtx.createImageData(outW, outH);
+  const dst = outImage.data;
+
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      const { x: sx, y: sy } = map(x / Math.max(1, outW - 1), y / Math.max(1, outH - 1));
+      const x0 = Math.min(sw - 1, Math.max(0, Math.floor(sx)));
+      const y0 = Math.min(sh - 1, Math.max(0, Math.floor(sy)));
+      const x1 = Math.min(sw - 1, x0 + 1), y1 = Math.min(sh - 1, y0 + 1);
+      const fx = Math.min(1, Math.max(0, sx - x0)), fy = Math.min(1, Math.max(0, sy - y0));
+      const o = (y * outW + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = srcData[(y0 * sw + x0) * 4 + ch] * (1 - fx) + srcData[(y0 * sw + x1) * 4 + ch] * fx;
+        const bottom = srcData[(y1 * sw + x0) * 4 + ch] * (1 - fx) + srcData[(y1 * sw + x1) * 4 + ch] * fx;
+        dst[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+      dst[o + 3] = 255;
+    }
+  }
+
+  outCtx.putImageData(outImage, 0, 0);
+  return out;
+};
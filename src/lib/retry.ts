@@ -0,0 +1,81 @@
+import { ErrorCode } from '../types';
+
+export interface RetryOptions {
+  retries?: number; // Extra attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each wait, e.g. to log or show "retrying in 4s". */
+  onRetry?: (attempt: number, code: ErrorCode, delayMs: number) => void;
+}
+
+const ERROR_CODES: ErrorCode[] = ['network', 'timeout', 'validation', 'server', 'quota', 'unknown'];
+const TRANSIENT_ERROR_CODES: ErrorCode[] = ['network', 'timeout', 'server'];
+
+// Helper: Delay execution
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Error carrying the HTTP status of a failed response, so classifyError can tell 4xx from 5xx.
+ */
+export const httpError = (status: number, message: string): Error =>
+  Object.assign(new Error(message), { status });
+
+/**
+ * Error that already carries its ErrorCode (classifyError returns it as is), e.g. a quota hit.
+ */
+export const codedError = (code: ErrorCode, message: string): Error =>
+  Object.assign(new Error(message), { code });
+
+/**
+ * Maps whatever a request threw (fetch TypeError, aborted signal, HTTP status, Gemini error
+ * object, our own "Cota" messages) to an ErrorCode.
+ */
+export const classifyError = (error: any): ErrorCode => {
+  if (ERROR_CODES.includes(error?.code)) return error.code; // Already classified by withRetry
+
+  const status = Number(error?.status ?? error?.error?.code ?? 0);
+  const text = typeof error?.message === 'string' ? error.message : JSON.stringify(error ?? '');
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|Cota/i.test(text)) return 'quota';
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError' || /timeout|timed out/i.test(text)) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'validation';
+  // fetch rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError || /failed to fetch|network/i.test(text) || navigator.onLine === false) return 'network';
+  return 'unknown';
+};
+
+export const isTransientError = (code: ErrorCode): boolean => TRANSIENT_ERROR_CODES.includes(code);
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half random, so clients
+ * that failed together do not retry together.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * exponential / 2;
+};
+
+/**
+ * Runs `task` until it succeeds, retrying transient failures only. Validation and quota
+ * errors fail at once. The final error gets its ErrorCode as `code`.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error: any) {
+      const code = classifyError(error);
+      if (attempt >= retries || !isTransientError(code)) {
+        // A new Error: DOMException (timeouts) has a read-only numeric `code`
+        throw Object.assign(new Error(error?.message || String(error)), { code, status: error?.status, cause: error });
+      }
+
+      const waitMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(attempt + 1, code, waitMs);
+      await delay(waitMs);
+    }
+  }
+};
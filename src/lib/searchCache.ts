@@ -0,0 +1,175 @@
+import { ArchiveSearchResponse, GroupedDoc, ViewedDocSummary } from '../types';
+import { STORES, withStore, promisifyRequest } from './indexedDb';
+
+// Local copies of what the archive returned: search responses (short-lived) and the documents
+// the operator opened, pages included, so they still open when the network is down.
+
+interface CachedSearch {
+  id: string; // Cache key: backend, número and filters
+  response: ArchiveSearchResponse;
+  cachedAt: number;
+}
+
+interface ViewedDocRecord {
+  id: string; // `${numero}|${serie}`
+  doc: GroupedDoc; // As the archive returned it (remote page URLs)
+  thumbnail?: Blob; // First page, for the "recently viewed" list
+  pageCount: number; // Entries in viewed_pages (0 when the pages could not be fetched)
+  viewedAt: number;
+}
+
+interface ViewedPageRecord {
+  id: string; // `${docKey}:${index}`
+  blob: Blob;
+}
+
+// Search responses older than this are dropped for good (offline fallback included)
+const SEARCH_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Documents kept for offline viewing, most recently opened first
+export const MAX_VIEWED_DOCS = 20;
+
+export const docKeyOf = (doc: Pick<GroupedDoc, 'id' | 'serie'>): string => `${doc.id}|${doc.serie}`;
+const pageKeyOf = (docKey: string, index: number) => `${docKey}:${index}`;
+
+// --- SEARCH RESPONSES ---
+
+export const getCachedSearch = async (key: string): Promise<CachedSearch | undefined> => {
+  try {
+    return await withStore(STORES.searchCache, 'readonly', store =>
+      promisifyRequest(store.get(key) as IDBRequest<CachedSearch | undefined>)
+    );
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Stores a response under `key`, dropping entries past SEARCH_CACHE_MAX_AGE_MS on the way.
+ */
+export const putCachedSearch = async (key: string, response: ArchiveSearchResponse): Promise<void> => {
+  const now = Date.now();
+  try {
+    await withStore(STORES.searchCache, 'readwrite', async store => {
+      const entries = await promisifyRequest(store.getAll() as IDBRequest<CachedSearch[]>);
+      entries
+        .filter(entry => now - entry.cachedAt > SEARCH_CACHE_MAX_AGE_MS)
+        .forEach(entry => store.delete(entry.id));
+      store.put({ id: key, response, cachedAt: now } as CachedSearch);
+    });
+  } catch (err) {
+    console.warn('[SearchCache] Could not store search:', err);
+  }
+};
+
+/**
+ * Forgets every cached search response (viewed documents stay): the archive just changed.
+ */
+export const clearCachedSearches = async (): Promise<void> => {
+  try {
+    await withStore(STORES.searchCache, 'readwrite', store => { store.clear(); });
+  } catch (err) {
+    console.warn('[SearchCache] Could not clear searches:', err);
+  }
+};
+
+// --- VIEWED DOCUMENTS ---
+
+const getViewedRecord = (key: string): Promise<ViewedDocRecord | undefined> =>
+  withStore(STORES.viewedDocs, 'readonly', store =>
+    promisifyRequest(store.get(key) as IDBRequest<ViewedDocRecord | undefined>)
+  );
+
+const deletePages = (key: string, count: number) =>
+  withStore(STORES.viewedPages, 'readwrite', store => {
+    for (let i = 0; i < count; i++) store.delete(pageKeyOf(key, i));
+  });
+
+/**
+ * True when `doc` is already saved with exactly these pages (only its viewedAt needs a bump).
+ */
+export const touchViewedDoc = async (doc: GroupedDoc): Promise<boolean> => {
+  try {
+    const record = await getViewedRecord(docKeyOf(doc));
+    if (!record || record.pageCount === 0 || record.doc.pages.join('\n') !== doc.pages.join('\n')) return false;
+    await withStore(STORES.viewedDocs, 'readwrite', store => { store.put({ ...record, doc, viewedAt: Date.now() }); });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Saves an opened document with its page files (`pages[i]` undefined = not available offline),
+ * keeping only the MAX_VIEWED_DOCS most recent ones.
+ */
+export const saveViewedDoc = async (doc: GroupedDoc, pages: (Blob | undefined)[], thumbnail?: Blob): Promise<void> => {
+  const key = docKeyOf(doc);
+  try {
+    const previous = await getViewedRecord(key);
+    if (previous) await deletePages(key, previous.pageCount);
+
+    // Offline copy only when every page came through: half a document would mislead
+    const complete = pages.length > 0 && pages.every(Boolean);
+    if (complete) {
+      await withStore(STORES.viewedPages, 'readwrite', store => {
+        pages.forEach((blob, i) => store.put({ id: pageKeyOf(key, i), blob } as ViewedPageRecord));
+      });
+    }
+
+    const record: ViewedDocRecord = { id: key, doc, thumbnail, pageCount: complete ? pages.length : 0, viewedAt: Date.now() };
+    const evicted = await withStore(STORES.viewedDocs, 'readwrite', async store => {
+      store.put(record);
+      const all = await promisifyRequest(store.getAll() as IDBRequest<ViewedDocRecord[]>);
+      const stale = all.sort((a, b) => b.viewedAt - a.viewedAt).slice(MAX_VIEWED_DOCS);
+      stale.forEach(old => store.delete(old.id));
+      return stale;
+    });
+    for (const old of evicted) await deletePages(old.id, old.pageCount);
+  } catch (err) {
+    console.warn('[SearchCache] Could not save viewed document:', err);
+  }
+};
+
+/**
+ * Recently opened documents, newest first (without their pages).
+ */
+export const listViewedDocs = async (): Promise<ViewedDocSummary[]> => {
+  try {
+    const records = await withStore(STORES.viewedDocs, 'readonly', store =>
+      promisifyRequest(store.getAll() as IDBRequest<ViewedDocRecord[]>)
+    );
+    return records
+      .sort((a, b) => b.viewedAt - a.viewedAt)
+      .map(({ doc, thumbnail, pageCount, viewedAt }) => ({ doc, thumbnail, viewedAt, availableOffline: pageCount > 0 }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saved page files of a viewed document, in order; undefined when it has no offline copy.
+ */
+export const getViewedPages = async (doc: Pick<GroupedDoc, 'id' | 'serie'>): Promise<Blob[] | undefined> => {
+  const key = docKeyOf(doc);
+  try {
+    const record = await getViewedRecord(key);
+    if (!record || record.pageCount === 0) return undefined;
+    const pages = await withStore(STORES.viewedPages, 'readonly', store =>
+      Promise.all(Array.from({ length: record.pageCount }, (_, i) =>
+        promisifyRequest(store.get(pageKeyOf(key, i)) as IDBRequest<ViewedPageRecord | undefined>)
+      ))
+    );
+    return pages.every(Boolean) ? pages.map(page => page!.blob) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Forgets every cached search and viewed document.
+ */
+export const clearSearchCache = async (): Promise<void> => {
+  await Promise.all([STORES.searchCache, STORES.viewedDocs, STORES.viewedPages].map(name =>
+    withStore(name, 'readwrite', store => { store.clear(); })
+  ));
+};
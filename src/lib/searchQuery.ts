@@ -0,0 +1,85 @@
+import { GroupedDoc, SearchQuery } from '../types';
+
+// GET parameter names the Apps Script reads for `action=search`
+const PARAM_NAMES: Record<keyof SearchQuery, string> = {
+  text: 'q',
+  numeroFrom: 'numero_de',
+  numeroTo: 'numero_ate',
+  serie: 'serie',
+  emissaoFrom: 'emissao_de',
+  emissaoTo: 'emissao_ate',
+  uploadedFrom: 'enviado_de',
+  uploadedTo: 'enviado_ate',
+  uploader: 'usuario'
+};
+
+const QUERY_KEYS = Object.keys(PARAM_NAMES) as (keyof SearchQuery)[];
+
+// Helper: Número/série compare without leading zeros
+const stripZeros = (value: string): string => value.trim().replace(/^0+/, '');
+
+const inRange = (value: string, from?: string, to?: string): boolean =>
+  (!from || value >= from) && (!to || value <= to);
+
+/**
+ * True when any field other than the free text is set.
+ */
+export const hasFilters = (query: SearchQuery): boolean =>
+  QUERY_KEYS.some(key => key !== 'text' && !!query[key]?.trim());
+
+/**
+ * Query string for the backend; empty fields are left out.
+ */
+export const serializeSearchQuery = (query: SearchQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  QUERY_KEYS.forEach(key => {
+    const value = query[key]?.trim();
+    if (value) params.set(PARAM_NAMES[key], value);
+  });
+  return params;
+};
+
+/**
+ * DD/MM/AAAA (as extracted from the DACTE) to AAAA-MM-DD; '' when it is not such a date.
+ */
+export const emissaoToIso = (date?: string): string => {
+  const match = date?.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : '';
+};
+
+/**
+ * AAAA-MM-DD of a moment in this browser's time zone ("yesterday" means the operator's yesterday).
+ */
+export const toLocalIsoDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Client-side check of one document against the query. The local backends search with it,
+ * and remote results go through it too (an older script may ignore some parameters).
+ * Documents without the date or uploader a filter asks for do not match.
+ */
+export const matchesSearchQuery = (doc: GroupedDoc, query: SearchQuery): boolean => {
+  const numero = Number(stripZeros(doc.id) || 0);
+
+  if (query.text?.trim() && !doc.id.includes(stripZeros(query.text))) return false;
+  if (query.numeroFrom?.trim() && numero < Number(query.numeroFrom)) return false;
+  if (query.numeroTo?.trim() && numero > Number(query.numeroTo)) return false;
+  if (query.serie?.trim() && stripZeros(doc.serie) !== stripZeros(query.serie)) return false;
+
+  if (query.emissaoFrom || query.emissaoTo) {
+    const emissao = emissaoToIso(doc.dataEmissao);
+    if (!emissao || !inRange(emissao, query.emissaoFrom, query.emissaoTo)) return false;
+  }
+
+  if (query.uploadedFrom || query.uploadedTo) {
+    const uploaded = doc.uploadedAt ? toLocalIsoDate(new Date(doc.uploadedAt)) : '';
+    if (!uploaded || !inRange(uploaded, query.uploadedFrom, query.uploadedTo)) return false;
+  }
+
+  const uploader = query.uploader?.trim().toLowerCase();
+  if (uploader && !doc.uploader?.toLowerCase().includes(uploader)) return false;
+
+  return true;
+};
@@ -0,0 +1,30 @@
+import { UploadSettings } from '../types';
+
+// Per-browser settings, edited in the Configurações view
+export const UPLOAD_SETTINGS_KEY = 'upload_settings';
+
+// Apps Script handles a few requests in parallel well; more mostly queues on its side
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = {
+  concurrency: 3,
+  chunkedUpload: false,
+  chunkSizeKb: 1024,
+  uploaderName: ''
+};
+
+export const getUploadSettings = (): UploadSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(UPLOAD_SETTINGS_KEY) || '{}');
+    return {
+      concurrency: stored.concurrency || DEFAULT_UPLOAD_SETTINGS.concurrency,
+      chunkedUpload: stored.chunkedUpload === true,
+      chunkSizeKb: stored.chunkSizeKb || DEFAULT_UPLOAD_SETTINGS.chunkSizeKb,
+      uploaderName: stored.uploaderName ?? DEFAULT_UPLOAD_SETTINGS.uploaderName
+    };
+  } catch {
+    return DEFAULT_UPLOAD_SETTINGS;
+  }
+};
+
+export const saveUploadSettings = (settings: UploadSettings) => {
+  localStorage.setItem(UPLOAD_SETTINGS_KEY, JSON.stringify(settings));
+};
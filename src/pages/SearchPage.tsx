@@ -1,246 +1,446 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, ExternalLink, XCircle, Clock, Info, CheckCircle, ChevronRight, Image as ImageIcon } from 'lucide-react';
-import { Button } from '../components/ui/Button';
-import { Input } from '../components/ui/Input';
-import { Card } from '../components/ui/Card';
-import { searchDocument, getSearchSuggestions } from '../services/api';
-import { SearchResult, SearchSuggestion } from '../../types';
-import { ImageZoomModal } from '../components/BatchUploader/ImageZoomModal';
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Search as SearchIcon, Loader2, SlidersHorizontal, Archive, ChevronRight, RefreshCw, WifiOff, History, FileText } from 'lucide-react';
+import { SearchFilters } from '../components/Search/SearchFilters';
+import { BulkSearch } from '../components/Search/BulkSearch';
+import { DocumentViewer } from '../components/Search/DocumentViewer';
+import { GroupedDoc, SearchQuery, SearchSource, SearchSuggestion, ViewedDocSummary } from '../types';
+import { hasFilters } from '../lib/searchQuery';
+import { downloadBlob } from '../lib/download';
+import { buildDocumentsZip } from '../services/documentExport';
+import { listViewedDocs } from '../lib/searchCache';
+import { MIN_QUERY_DIGITS, SearchOptions, normalizeNumero, releaseOfflinePages, rememberViewedDoc, searchDocuments, suggestDocuments, withOfflinePages } from '../services/search';
+
+// Helper: "19/10 14:32" for the saved-copy notes
+const formatSavedAt = (epochMs: number): string =>
+  new Date(epochMs).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
 
 export const SearchPage: React.FC = () => {
   // Search State
   const [query, setQuery] = useState('');
-  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<GroupedDoc[]>([]);
+  const [selectedDoc, setSelectedDoc] = useState<GroupedDoc | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [filters, setFilters] = useState<SearchQuery>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchMode, setSearchMode] = useState<'single' | 'bulk'>('single');
+  // Results ticked for the ZIP export (número|série)
+  const [checkedDocKeys, setCheckedDocKeys] = useState<string[]>([]);
+  const [zipProgress, setZipProgress] = useState<string | null>(null);
+  const isFiltered = hasFilters(filters);
+
+  // Autocomplete State
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
-  
-  // Results State
-  const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<SearchResult | null>(null);
-  
-  // Zoom State
-  const [zoomUrl, setZoomUrl] = useState<string | null>(null);
+  // Série of the picked suggestion, so the search opens that document and not a namesake
+  const preferredSerieRef = useRef<string | null>(null);
+
+  // Local copies: where the shown results came from, and the documents opened before
+  const [resultSource, setResultSource] = useState<{ source: SearchSource; cachedAt?: number } | null>(null);
+  const [recentDocs, setRecentDocs] = useState<ViewedDocSummary[]>([]);
+  // Set when a recent document fills the box: it is already on screen, no auto-search
+  const skipAutoSearchRef = useRef(false);
 
-  // Debounce Logic
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedQuery(query);
-    }, 400); // 400ms debounce
-    return () => clearTimeout(timer);
-  }, [query]);
+    listViewedDocs().then(setRecentDocs);
+  }, []);
+
+  // Saved copies are shown from blob: URLs; released once the results are replaced (or the page closes).
+  // The open document is always one of the results, so the viewer never outlives its URLs.
+  useEffect(() => () => releaseOfflinePages(searchResults), [searchResults]);
 
-  // Fetch Suggestions
+  // Every opened document is kept for instant and offline reopening
   useEffect(() => {
-    const fetchSuggestions = async () => {
-      if (debouncedQuery.length >= 2) {
-        // Only fetch if it looks like a number (at least partially)
-        const numericPart = debouncedQuery.replace(/\D/g, '');
-        if (numericPart.length >= 2) {
-            const results = await getSearchSuggestions(numericPart);
-            setSuggestions(results);
-            setShowSuggestions(results.length > 0);
-        } else {
-            setSuggestions([]);
-            setShowSuggestions(false);
-        }
+    if (!selectedDoc) return;
+    rememberViewedDoc(selectedDoc).then(() => listViewedDocs().then(setRecentDocs));
+  }, [selectedDoc]);
+
+  // Debounced Auto-Search and suggestions
+  useEffect(() => {
+    if (skipAutoSearchRef.current) {
+      skipAutoSearchRef.current = false;
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      // Reduced delay for snappier feel (was 800ms)
+      if (normalizeNumero(query).length >= MIN_QUERY_DIGITS) {
+        handleSearch();
+        suggestDocuments(query).then(results => {
+          if (!cancelled) setSuggestions(results);
+        });
       } else {
         setSuggestions([]);
-        setShowSuggestions(false);
       }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
+  }, [query]);
 
-    fetchSuggestions();
-  }, [debouncedQuery]);
+  // Search Function
+  const handleSearch = async (e?: React.FormEvent, cache?: SearchOptions['cache']) => {
+    if (e) {
+      e.preventDefault();
+      setShowSuggestions(false);
+    }
+
+    // With filters the número box is optional (e.g. "all série 307 issued in March")
+    if (!isFiltered && normalizeNumero(query).length < MIN_QUERY_DIGITS) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setHasSearched(true);
+
+    const response = await searchDocuments(query, filters, { cache });
+    setIsLoading(false);
+
+    if (response.status === 'error') {
+      setError(response.message);
+      return;
+    }
+    setResultSource(response.source ? { source: response.source, cachedAt: response.cachedAt } : null);
+
+    const groupedResults = response.docs;
+    setSearchResults(groupedResults);
+
+    // --- LOGIC UPDATED FOR AUTO-REFRESH ---
+    const preferredSerie = preferredSerieRef.current;
+    preferredSerieRef.current = null;
+    const preferred = preferredSerie ? groupedResults.find(doc => doc.id === response.exact?.id && doc.serie === preferredSerie) : undefined;
+
+    if (groupedResults.length > 0) {
+        // 1. Exact Match Priority (the picked suggestion's série first)
+        if (preferred || response.exact) {
+            setSelectedDoc(preferred || response.exact!);
+        }
+        // 2. Single Result Priority
+        else if (groupedResults.length === 1) {
+            setSelectedDoc(groupedResults[0]);
+        }
+        // 3. Keep the selected doc if it is still in the results (as the new copy); else show the list
+        else if (selectedDoc) {
+           const current = groupedResults.find(doc => doc.id === selectedDoc.id && doc.serie === selectedDoc.serie);
+           setSelectedDoc(current || null);
+        }
+    } else {
+        // If search returns nothing, clear the current view so user knows it wasn't found
+        if (selectedDoc) {
+            setSelectedDoc(null);
+        }
+    }
+  };
 
   const handleSelectSuggestion = (suggestion: SearchSuggestion) => {
-    setQuery(suggestion.numero);
+    preferredSerieRef.current = suggestion.serie;
     setShowSuggestions(false);
-    performSearch(suggestion.numero);
+    // Same número already typed: the auto-search will not fire again
+    if (normalizeNumero(query) === suggestion.numero) handleSearch();
+    else setQuery(suggestion.numero);
   };
 
-  const handleManualSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setShowSuggestions(false);
-    performSearch(query);
+  // Opens the saved copy right away (works offline); "Atualizar" asks the archive
+  const handleOpenRecent = async (entry: ViewedDocSummary) => {
+    const doc = await withOfflinePages(entry.doc);
+    if (query !== doc.id) {
+      skipAutoSearchRef.current = true;
+      setQuery(doc.id);
+    }
+    setError(null);
+    setHasSearched(true);
+    setSearchResults([doc]);
+    setSelectedDoc(doc);
+    setResultSource({ source: 'offline', cachedAt: entry.viewedAt });
   };
 
-  const performSearch = async (searchInfo: string) => {
-    // Sanitize
-    const sanitizedQuery = searchInfo.replace(/\D/g, '').replace(/^0+/, '');
+  // A found row of the bulk report opens like a normal search (the auto-search picks it up)
+  const handleOpenFromBulk = (numero: string) => {
+    setFilters({});
+    setSearchMode('single');
+    setQuery(numero);
+  };
 
-    if (!sanitizedQuery) return;
+  const clearSearch = () => {
+    setQuery('');
+    setSelectedDoc(null);
+    setSearchResults([]);
+    setSuggestions([]);
+    setError(null);
+    setHasSearched(false);
+    setResultSource(null);
+  };
 
-    setIsLoading(true);
-    setResult(null);
-
-    try {
-      const data = await searchDocument(sanitizedQuery);
-      setResult(data);
-    } catch (error) {
-      setResult({ found: false, message: "Erro de conexão inesperado." });
-    } finally {
-      setIsLoading(false);
-    }
+  const docKeyOf = (doc: GroupedDoc) => `${doc.id}|${doc.serie}`;
+  // Ticks survive a new search only for documents still in the results
+  const checkedResults = searchResults.filter(doc => checkedDocKeys.includes(docKeyOf(doc)));
+
+  const handleToggleChecked = (doc: GroupedDoc) => {
+      const key = docKeyOf(doc);
+      setCheckedDocKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  // Ticked results as a ZIP with one PDF per document
+  const handleDownloadZip = async () => {
+      const docs = checkedResults;
+      if (docs.length === 0 || zipProgress) return;
+
+      setZipProgress(`0/${docs.length}`);
+      try {
+          const { zip, failed } = await buildDocumentsZip(docs, (done, total) => setZipProgress(`${done}/${total}`));
+          if (zip) downloadBlob(zip, `ctes_${new Date().toISOString().split('T')[0]}.zip`);
+          if (failed.length > 0) {
+              alert(`Não foi possível incluir: ${failed.map(doc => `CTE ${doc.id}`).join(', ')}.`);
+          }
+      } finally {
+          setZipProgress(null);
+      }
   };
 
   return (
-    <div className="flex flex-col h-full max-w-lg mx-auto p-4 space-y-6">
-       <header className="mb-4">
-        <h1 className="text-2xl font-bold text-brand-primary dark:text-white">Buscar CTE</h1>
-        <p className="text-sm text-gray-500 dark:text-gray-400">Localize documentos digitalizados.</p>
+    <div className="max-w-lg mx-auto flex flex-col gap-6">
+       <header>
+        <h1 className="text-2xl font-bold text-brand-primary dark:text-white">Buscar Documento</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {searchMode === 'single' ? 'Digite o número do CTE para visualizar.' : 'Confira quais CTEs de uma lista já estão arquivados.'}
+        </p>
       </header>
 
-      {/* Search Input & Autocomplete */}
-      <div className="relative z-20">
-        <form onSubmit={handleManualSubmit} className="flex gap-2">
-          <Input 
-            placeholder="Digite o número (ex: 1467)" 
-            value={query}
-            onChange={(e) => {
-                setQuery(e.target.value);
-                // Hide results if user starts typing again
-                if (result) setResult(null); 
-            }}
-            onFocus={() => {
-                if (suggestions.length > 0) setShowSuggestions(true);
-            }}
-            onBlur={() => {
-                // Delay hiding to allow click event on suggestion to fire
-                setTimeout(() => setShowSuggestions(false), 200);
-            }}
-            className="flex-1 font-mono text-lg"
-            type="text"
-            inputMode="numeric"
-            pattern="[0-9]*"
-            autoComplete="off"
-          />
-          <Button type="submit" disabled={isLoading} variant="primary" className="aspect-square px-0 w-12 shrink-0">
-            <Search />
-          </Button>
+      {/* Mode: one document or a whole list */}
+      <div className="flex bg-gray-100 dark:bg-gray-800 rounded-xl p-1 -mt-2">
+        {([['single', 'Por número'], ['bulk', 'Em lote']] as const).map(([mode, label]) => (
+          <button
+            key={mode}
+            onClick={() => setSearchMode(mode)}
+            className={`flex-1 py-2 text-sm font-medium rounded-lg transition-colors ${searchMode === mode ? 'bg-white dark:bg-brand-dark text-brand-primary dark:text-white shadow-sm' : 'text-gray-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {searchMode === 'bulk' && <BulkSearch onOpen={handleOpenFromBulk} />}
+
+      {/* Search Form */}
+      {searchMode === 'single' && (
+      <div className="relative z-30">
+        <form onSubmit={handleSearch} className="relative flex gap-2">
+          <div className="relative flex-1">
+            <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                value={query}
+                onChange={(e) => {
+                    setQuery(e.target.value);
+                    setShowSuggestions(true);
+                    if (error) setError(null);
+                }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => {
+                    // Delay hiding to allow click event on suggestion to fire
+                    setTimeout(() => setShowSuggestions(false), 200);
+                }}
+                placeholder="Digite o número ou a chave..."
+                className="w-full h-12 pl-12 pr-10 rounded-xl border border-gray-300 dark:border-gray-600 bg-white dark:bg-brand-dark text-lg shadow-sm focus:ring-2 focus:ring-brand-primary dark:text-white transition-all"
+            />
+            <div className="absolute left-4 top-3.5 text-gray-400">
+                <SearchIcon size={20} />
+            </div>
+            {query && (
+                <button type="button" onClick={clearSearch} className="absolute right-3 top-3.5 text-gray-400 hover:text-red-500">
+                <X size={20} />
+                </button>
+            )}
+
+            {/* Suggestions Dropdown */}
+            {showSuggestions && suggestions.length > 0 && (
+                <div className="absolute top-full left-0 right-0 mt-1 bg-white dark:bg-brand-deep border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl overflow-hidden max-h-60 overflow-y-auto z-40 animate-in fade-in slide-in-from-top-2 duration-200">
+                    {suggestions.map((s, idx) => (
+                        <button
+                            key={`${s.numero}-${s.serie}-${idx}`}
+                            type="button"
+                            className="w-full text-left px-4 py-3 hover:bg-brand-surface dark:hover:bg-brand-dark transition-colors flex justify-between items-center group"
+                            onClick={() => handleSelectSuggestion(s)}
+                        >
+                            <span className="font-mono text-brand-primary dark:text-brand-soft font-bold text-lg">{s.numero}</span>
+                            <div className="flex items-center gap-2 text-gray-400 text-sm">
+                                <span>Série {s.serie}</span>
+                                <ChevronRight size={16} className="opacity-0 group-hover:opacity-100 transition-opacity" />
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowFilters(prev => !prev)}
+            title="Filtros"
+            className={`relative px-3 rounded-xl border transition-colors ${showFilters || isFiltered ? 'border-brand-primary text-brand-primary bg-brand-primary/10' : 'border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-300'}`}
+          >
+            <SlidersHorizontal size={20} />
+            {isFiltered && <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-brand-secondary"></span>}
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="bg-brand-primary text-white px-6 rounded-xl font-bold hover:bg-brand-focus disabled:opacity-50 transition-colors"
+          >
+            {isLoading ? <Loader2 className="animate-spin" /> : 'Buscar'}
+          </button>
         </form>
 
-        {/* Suggestions Dropdown */}
-        {showSuggestions && suggestions.length > 0 && (
-            <div className="absolute top-full left-0 right-14 mt-1 bg-white dark:bg-brand-deep border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl overflow-hidden max-h-60 overflow-y-auto animate-in fade-in slide-in-from-top-2 duration-200">
-                {suggestions.map((s, idx) => (
-                    <button
-                        key={`${s.numero}-${idx}`}
-                        className="w-full text-left px-4 py-3 hover:bg-brand-surface dark:hover:bg-brand-dark transition-colors flex justify-between items-center group"
-                        onClick={() => handleSelectSuggestion(s)}
-                    >
-                        <span className="font-mono text-brand-primary dark:text-brand-soft font-bold text-lg">{s.numero}</span>
-                        <div className="flex items-center gap-2 text-gray-400 text-sm">
-                            <span>Série {s.serie}</span>
-                            <ChevronRight size={16} className="opacity-0 group-hover:opacity-100 transition-opacity" />
-                        </div>
-                    </button>
-                ))}
+        {showFilters && (
+            <SearchFilters value={filters} onChange={setFilters} onClear={() => setFilters({})} />
+        )}
+
+        {error && (
+            <div className="mt-3 text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-2 rounded border border-red-200 dark:border-red-800">
+                {error}
             </div>
         )}
 
-        <p className="text-xs text-gray-400 px-1 mt-2 flex items-center gap-1">
-          <Info size={12} />
-          Digite sem pontos ou zeros à esquerda.
-        </p>
-      </div>
+        {/* Results not fresh from the archive: say how old they are */}
+        {resultSource && resultSource.source !== 'network' && hasSearched && !error && (
+            <div className={`mt-3 flex items-center gap-2 text-xs p-2 rounded-lg border ${resultSource.source === 'offline' ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-400' : 'bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400'}`}>
+                {resultSource.source === 'offline' ? <WifiOff size={14} className="shrink-0" /> : <History size={14} className="shrink-0" />}
+                <span className="flex-1">
+                    {resultSource.source === 'offline' ? 'Cópia salva neste aparelho' : 'Resultado salvo'}
+                    {resultSource.cachedAt ? ` em ${formatSavedAt(resultSource.cachedAt)}` : ''}
+                </span>
+                <button
+                    type="button"
+                    onClick={() => handleSearch(undefined, 'reload')}
+                    disabled={isLoading}
+                    className="flex items-center gap-1 font-bold text-brand-primary hover:underline disabled:opacity-50"
+                >
+                    <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} /> Atualizar
+                </button>
+            </div>
+        )}
 
-      {isLoading && (
-        <div className="py-10 text-center text-gray-400 animate-pulse">
-           <div className="animate-spin w-8 h-8 border-2 border-brand-primary border-t-transparent rounded-full mx-auto mb-2"></div>
-           Buscando <strong>{query.replace(/\D/g, '').replace(/^0+/, '')}</strong>...
-        </div>
-      )}
+        {!isLoading && hasSearched && searchResults.length === 0 && !error && (
+            <div className="mt-3 text-gray-500 text-sm text-center p-4 bg-gray-50 dark:bg-gray-800 rounded-xl">
+                {isFiltered ? 'Nenhum documento encontrado com estes filtros.' : `Nenhum documento encontrado para "${normalizeNumero(query)}".`}
+                <span className="block text-xs text-gray-400 mt-1">Se você acabou de enviar o documento, aguarde alguns segundos para o sistema atualizar.</span>
+            </div>
+        )}
 
-      {result && (
-        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 pb-20">
-          {result.found ? (
-            <Card className="overflow-hidden p-0 border-l-4 border-l-green-500 shadow-lg">
-              {/* Result Header */}
-              <div className="bg-green-50 dark:bg-green-900/20 p-4 border-b border-green-100 dark:border-green-800 flex items-center justify-between">
-                <div className="flex items-center gap-2 text-green-700 dark:text-green-400 font-bold">
-                  <CheckCircle size={20} />
-                  <span>CTE {result.docInfo?.numero}</span>
+        {/* Recently Viewed */}
+        {!query && !selectedDoc && recentDocs.length > 0 && (
+          <div className="mt-4 space-y-2 animate-in fade-in">
+            <h3 className="font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1"><History size={16} /> Vistos recentemente</h3>
+            {recentDocs.map(entry => (
+                <button
+                    key={`${entry.doc.id}|${entry.doc.serie}`}
+                    onClick={() => handleOpenRecent(entry)}
+                    className="w-full text-left p-2 bg-white dark:bg-brand-dark border border-gray-200 dark:border-gray-700 rounded-xl hover:shadow-md transition-all flex items-center gap-3"
+                >
+                    <RecentThumbnail blob={entry.thumbnail} />
+                    <div className="flex-1 min-w-0">
+                        <span className="font-mono font-bold text-brand-primary dark:text-brand-soft">CTE {entry.doc.id}</span>
+                        <span className="block text-[11px] text-gray-400">Série {entry.doc.serie} • visto em {formatSavedAt(entry.viewedAt)}</span>
+                    </div>
+                    {entry.availableOffline && (
+                        <span className="text-[10px] font-bold uppercase text-green-600 bg-green-50 dark:bg-green-900/20 px-2 py-0.5 rounded" title="Abre mesmo sem internet">Offline</span>
+                    )}
+                </button>
+            ))}
+          </div>
+        )}
+
+        {/* Results List */}
+        {searchResults.length > 0 && !selectedDoc && (
+          <div className="mt-4 space-y-2 animate-in fade-in slide-in-from-top-2">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="font-bold text-gray-700 dark:text-gray-300">Resultados Encontrados ({searchResults.length}):</h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setCheckedDocKeys(checkedResults.length === searchResults.length ? [] : searchResults.map(docKeyOf))}
+                        className="text-xs text-brand-primary hover:underline"
+                    >
+                        {checkedResults.length === searchResults.length ? 'Desmarcar' : 'Marcar todos'}
+                    </button>
+                    {checkedResults.length > 0 && (
+                        <button
+                            onClick={handleDownloadZip}
+                            disabled={!!zipProgress}
+                            className="flex items-center gap-1 px-3 py-1.5 bg-brand-primary text-white text-xs font-bold rounded-lg hover:bg-brand-focus transition-colors shadow-sm disabled:opacity-50"
+                        >
+                            {zipProgress ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}
+                            {zipProgress ? `Gerando ${zipProgress}` : `ZIP (${checkedResults.length})`}
+                        </button>
+                    )}
                 </div>
-                <div className="flex gap-2">
-                  <span className="text-xs font-mono bg-white dark:bg-brand-dark px-2 py-1 rounded text-gray-500 border border-gray-200 dark:border-gray-700">
-                    Série {result.docInfo?.serie}
-                  </span>
+            </div>
+            {searchResults.map((doc) => (
+                <div key={docKeyOf(doc)} className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    checked={checkedDocKeys.includes(docKeyOf(doc))}
+                    onChange={() => handleToggleChecked(doc)}
+                    className="w-4 h-4 accent-brand-primary shrink-0"
+                    aria-label={`Selecionar CTE ${doc.id}`}
+                />
+                <button
+                onClick={() => setSelectedDoc(doc)}
+                className="flex-1 text-left px-4 py-3 bg-white dark:bg-brand-dark border border-gray-200 dark:border-gray-700 rounded-xl hover:shadow-md transition-all flex items-center justify-between group"
+                >
+                <div>
+                    <span className="font-mono font-bold text-brand-primary dark:text-brand-soft">CTE {doc.id}</span>
+                    {(doc.dataEmissao || doc.uploader) && (
+                        <span className="block text-[11px] text-gray-400">
+                            {[doc.dataEmissao && `Emissão ${doc.dataEmissao}`, doc.uploader && `por ${doc.uploader}`].filter(Boolean).join(' • ')}
+                        </span>
+                    )}
                 </div>
-              </div>
-              
-              {/* Image Gallery */}
-              <div className="p-4 space-y-4">
-                {result.images && result.images.length > 0 ? (
-                  <div className={`grid gap-3 ${result.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
-                    {result.images.map((imgUrl, index) => (
-                        <div 
-                            key={index}
-                            className="relative group rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 cursor-zoom-in aspect-[3/4]"
-                            onClick={() => setZoomUrl(imgUrl)}
-                        >
-                             {/* eslint-disable-next-line @next/next/no-img-element */}
-                             <img 
-                                src={imgUrl} 
-                                alt={`Página ${index + 1}`} 
-                                className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
-                                loading="lazy"
-                             />
-                             <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors flex items-center justify-center">
-                                <div className="bg-black/50 text-white px-2 py-1 rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity backdrop-blur-sm">
-                                    Página {index + 1}
-                                </div>
-                             </div>
-                        </div>
-                    ))}
-                  </div>
-                ) : (
-                   <div className="h-32 bg-gray-50 flex flex-col items-center justify-center text-gray-400 italic text-sm border border-dashed rounded-lg gap-2">
-                     <ImageIcon size={24} className="opacity-20" />
-                     Visualização não disponível
-                   </div>
-                )}
-                
-                {/* Actions */}
-                {result.url_drive && (
-                  <a 
-                    href={result.url_drive} 
-                    target="_blank" 
-                    rel="noreferrer"
-                    className="block w-full"
-                  >
-                    <Button variant="primary" fullWidth className="bg-brand-primary hover:bg-brand-focus">
-                      <ExternalLink className="mr-2 h-4 w-4" /> Abrir Pasta no Google Drive
-                    </Button>
-                  </a>
-                )}
-              </div>
-            </Card>
-          ) : (
-            <Card className="flex flex-col items-center justify-center py-8 text-center gap-4 bg-red-50 dark:bg-brand-dark border-brand-secondary/20 shadow-none">
-              <div className="bg-red-100 p-3 rounded-full">
-                <XCircle className="w-8 h-8 text-brand-secondary" />
-              </div>
-              <div>
-                <h3 className="text-lg font-bold text-gray-800 dark:text-white">Não Encontrado</h3>
-                <p className="text-sm text-gray-600 dark:text-gray-300 max-w-[280px] mx-auto leading-relaxed mt-2">
-                   {result.message}
-                </p>
-                <div className="mt-6 flex items-start justify-center gap-2 text-xs text-gray-500 bg-white dark:bg-gray-800 p-3 rounded-lg text-left max-w-xs mx-auto border border-gray-100 dark:border-gray-700 shadow-sm">
-                  <Clock size={14} className="mt-0.5 shrink-0 text-brand-primary" />
-                  <span>Dica: Se você acabou de enviar o documento, aguarde alguns segundos para o sistema atualizar.</span>
+                <div className="flex items-center gap-2">
+                    <span className="text-xs bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded text-gray-500 dark:text-gray-300">
+                        Série {doc.serie}
+                    </span>
+                    <span className="text-xs text-gray-400 group-hover:text-brand-primary transition-colors">
+                    {doc.pages.length} pág(s)
+                    </span>
                 </div>
-              </div>
-            </Card>
-          )}
-        </div>
+                </button>
+                </div>
+            ))}
+          </div>
+        )}
+      </div>
+      )}
+
+      {/* Document Viewer */}
+      {searchMode === 'single' && selectedDoc && (
+        <DocumentViewer
+          doc={selectedDoc}
+          closeLabel={searchResults.length > 1 ? "Lista" : "Fechar"}
+          onClose={() => setSelectedDoc(null)}
+        />
       )}
+    </div>
+  );
+};
+
+// Helper: Saved first-page thumbnail (object URL lives as long as the row)
+const RecentThumbnail: React.FC<{ blob?: Blob }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
 
-      {/* Image Zoom Modal */}
-      <ImageZoomModal 
-         isOpen={!!zoomUrl} 
-         imageUrl={zoomUrl || ''} 
-         onClose={() => setZoomUrl(null)} 
-      />
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return (
+    <div className="w-10 aspect-[3/4] rounded overflow-hidden bg-gray-100 dark:bg-gray-700 shrink-0 flex items-center justify-center">
+      {url ? <img src={url} alt="" className="w-full h-full object-cover" /> : <FileText size={16} className="text-gray-400" />}
     </div>
   );
 };
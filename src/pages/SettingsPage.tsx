@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Brain, Archive, FileText, Save, RotateCcw, CheckCircle, UploadCloud, History, Trash2 } from 'lucide-react';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { OutputProfile, OutputSettings, UploadSettings } from '../types';
+import { DEFAULT_OUTPUT_SETTINGS, getOutputSettings, saveOutputSettings } from '../lib/outputProfiles';
+import { DEFAULT_UPLOAD_SETTINGS, getUploadSettings, saveUploadSettings } from '../lib/uploadSettings';
+import { MAX_VIEWED_DOCS, clearSearchCache } from '../lib/searchCache';
+
+const AI_SIDES = [1024, 1280, 1600];
+const ARCHIVE_SIDES = [1280, 1600, 2400, 3200, 4096];
+const PDF_SCALES = [1.5, 2, 3, 4];
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+const CHUNK_SIZES_KB = [256, 512, 1024, 2048, 4096];
+
+const selectClass = "w-full h-10 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-brand-dark dark:text-white px-2 text-sm disabled:opacity-50";
+const labelClass = "block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1";
+
+// Helper: Quality slider shared by both profiles
+const QualitySlider: React.FC<{ value: number; onChange: (value: number) => void }> = ({ value, onChange }) => (
+  <div>
+    <label className={labelClass}>Qualidade: {Math.round(value * 100)}%</label>
+    <input
+      type="range"
+      min={0.5}
+      max={0.95}
+      step={0.05}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-brand-primary"
+    />
+  </div>
+);
+
+export const SettingsPage: React.FC = () => {
+  const [settings, setSettings] = useState<OutputSettings>(getOutputSettings);
+  const [upload, setUpload] = useState<UploadSettings>(getUploadSettings);
+  const [saved, setSaved] = useState(false);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  const updateProfile = (target: 'ai' | 'archive', changes: Partial<OutputProfile>) => {
+    setSettings(prev => ({ ...prev, [target]: { ...prev[target], ...changes } }));
+    setSaved(false);
+  };
+
+  const updateUpload = (changes: Partial<UploadSettings>) => {
+    setUpload(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    saveOutputSettings(settings);
+    saveUploadSettings(upload);
+    setSaved(true);
+  };
+
+  // Takes effect at once: not part of Salvar
+  const handleClearCache = async () => {
+    try {
+      await clearSearchCache();
+      setCacheCleared(true);
+    } catch (err) {
+      console.error('Clear search cache failed:', err);
+      alert('Não foi possível limpar os dados salvos.');
+    }
+  };
+
+  const handleReset = () => {
+    setSettings(DEFAULT_OUTPUT_SETTINGS);
+    setUpload(DEFAULT_UPLOAD_SETTINGS);
+    setSaved(false);
+  };
+
+  return (
+    <div className="max-w-lg mx-auto flex flex-col gap-4 pb-8">
+      <header>
+        <h1 className="text-2xl font-bold text-brand-primary dark:text-white">Configurações</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Qualidade das imagens e envio neste navegador. Vale para os próximos itens processados.</p>
+      </header>
+
+      {/* AI Profile */}
+      <Card className="space-y-3">
+        <div className="flex items-center gap-2 font-bold text-brand-primary dark:text-white">
+          <Brain size={18} /> Imagem para leitura (IA)
+        </div>
+        <p className="text-xs text-gray-500">Pequena e rápida. Usada só para extrair número, série e data.</p>
+        <div>
+          <label className={labelClass}>Lado maior (px)</label>
+          <select
+            value={settings.ai.maxSide}
+            onChange={(e) => updateProfile('ai', { maxSide: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {AI_SIDES.map(side => <option key={side} value={side}>{side}</option>)}
+          </select>
+        </div>
+        <QualitySlider value={settings.ai.quality} onChange={(quality) => updateProfile('ai', { quality })} />
+      </Card>
+
+      {/* Archive Profile */}
+      <Card className="space-y-3">
+        <div className="flex items-center gap-2 font-bold text-brand-primary dark:text-white">
+          <Archive size={18} /> Imagem para arquivo
+        </div>
+        <p className="text-xs text-gray-500">Cópia guardada no armazenamento. Maior resolução = arquivos maiores e envio mais lento.</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Lado maior (px)</label>
+            <select
+              value={settings.archive.maxSide}
+              onChange={(e) => updateProfile('archive', { maxSide: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {ARCHIVE_SIDES.map(side => <option key={side} value={side}>{side}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Formato</label>
+            <select
+              value={settings.archive.format}
+              onChange={(e) => updateProfile('archive', { format: e.target.value as OutputProfile['format'] })}
+              className={selectClass}
+            >
+              <option value="image/jpeg">JPEG</option>
+              <option value="image/webp">WebP</option>
+            </select>
+          </div>
+        </div>
+        <QualitySlider value={settings.archive.quality} onChange={(quality) => updateProfile('archive', { quality })} />
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.archive.grayscale}
+            onChange={(e) => updateProfile('archive', { grayscale: e.target.checked })}
+            className="accent-brand-primary"
+          />
+          Escala de cinza
+        </label>
+      </Card>
+
+      {/* PDF Rendering */}
+      <Card className="space-y-3">
+        <div className="flex items-center gap-2 font-bold text-brand-primary dark:text-white">
+          <FileText size={18} /> PDFs
+        </div>
+        <div>
+          <label className={labelClass}>Escala de renderização das páginas</label>
+          <select
+            value={settings.pdfRenderScale}
+            onChange={(e) => { setSettings(prev => ({ ...prev, pdfRenderScale: Number(e.target.value) })); setSaved(false); }}
+            className={selectClass}
+          >
+            {PDF_SCALES.map(scale => <option key={scale} value={scale}>{scale}x ({Math.round(scale * 72)} dpi)</option>)}
+          </select>
+        </div>
+        <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.keepOriginalPdf}
+            onChange={(e) => { setSettings(prev => ({ ...prev, keepOriginalPdf: e.target.checked })); setSaved(false); }}
+            className="accent-brand-primary mt-0.5"
+          />
+          <span>
+            Arquivar o PDF original
+            <span className="block text-xs text-gray-500">Guarda o arquivo recebido, sem reconversão. As páginas em imagem servem só para a pré-visualização e a leitura.</span>
+          </span>
+        </label>
+      </Card>
+
+      {/* Upload */}
+      <Card className="space-y-3">
+        <div className="flex items-center gap-2 font-bold text-brand-primary dark:text-white">
+          <UploadCloud size={18} /> Envio
+        </div>
+        <div>
+          <label className={labelClass}>Enviado por</label>
+          <input
+            type="text"
+            value={upload.uploaderName}
+            onChange={(e) => updateUpload({ uploaderName: e.target.value })}
+            placeholder="Seu nome"
+            className={selectClass}
+          />
+          <p className="text-xs text-gray-500 mt-1">Gravado junto com cada página; permite buscar o que cada pessoa enviou.</p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Envios simultâneos</label>
+            <select
+              value={upload.concurrency}
+              onChange={(e) => updateUpload({ concurrency: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {CONCURRENCY_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Tamanho das partes</label>
+            <select
+              value={upload.chunkSizeKb}
+              disabled={!upload.chunkedUpload}
+              onChange={(e) => updateUpload({ chunkSizeKb: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {CHUNK_SIZES_KB.map(size => <option key={size} value={size}>{size >= 1024 ? `${size / 1024} MB` : `${size} KB`}</option>)}
+            </select>
+          </div>
+        </div>
+        <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={upload.chunkedUpload}
+            onChange={(e) => updateUpload({ chunkedUpload: e.target.checked })}
+            className="accent-brand-primary mt-0.5"
+          />
+          <span>
+            Enviar arquivos grandes em partes
+            <span className="block text-xs text-gray-500">Arquivos maiores que uma parte são enviados em pedaços; se a conexão cair, o envio continua de onde parou. Só ative se o script do Drive já aceita envio em partes.</span>
+          </span>
+        </label>
+      </Card>
+
+      {/* Search cache */}
+      <Card className="space-y-3">
+        <div className="flex items-center gap-2 font-bold text-brand-primary dark:text-white">
+          <History size={18} /> Buscas salvas
+        </div>
+        <p className="text-xs text-gray-500">
+          Resultados recentes e os últimos {MAX_VIEWED_DOCS} CTEs abertos ficam neste aparelho: abrem na hora e funcionam sem internet.
+        </p>
+        <Button variant="outline" onClick={handleClearCache} disabled={cacheCleared} className="px-4">
+          {cacheCleared ? <><CheckCircle size={18} className="mr-2" /> Limpo</> : <><Trash2 size={18} className="mr-2" /> Limpar dados salvos</>}
+        </Button>
+      </Card>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleReset} className="px-4">
+          <RotateCcw size={18} className="mr-2" /> Padrão
+        </Button>
+        <Button variant="primary" onClick={handleSave} className="flex-1">
+          {saved ? <><CheckCircle size={18} className="mr-2" /> Salvo</> : <><Save size={18} className="mr-2" /> Salvar</>}
+        </Button>
+      </div>
+    </div>
+  );
+};
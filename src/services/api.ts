@@ -1,8 +1,12 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { ExtractedData, SearchResult, UploadPayload, SearchSuggestion } from "../../types";
+import { ExtractedData, UploadPayload } from "../types";
+import { applyChaveCheck, normalizeChave } from "../lib/chaveAcesso";
+import { classifyError, withRetry } from "../lib/retry";
+import { getStorageBackend, UploadOptions } from "./storage";
+import { quotaError } from "./extraction/extractionProvider";
+import { invalidateSearchCache } from "./search";
 
 // Configuration
-const APPS_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbzA9xFaLJ2UKEKUP4O-eM1zVGxaq51oZDxFjQHxlLOiy044xTftAwNnigxMdC3Q1PyH/exec";
 const GEMINI_API_KEY = process.env.API_KEY || "";
 
 // Check configuration immediately
@@ -12,12 +16,10 @@ if (!GEMINI_API_KEY) {
 
 const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
 
-// Helper: Delay execution
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 /**
  * Probes the AI Model to check if Quota is available using a minimal token request.
- * Returns TRUE if available, FALSE if quota exceeded or error.
+ * Returns FALSE without an API key and throws the quota error when the quota is exceeded;
+ * other errors return TRUE (the real request reports them).
  */
 export const checkAiAvailability = async (): Promise<boolean> => {
   if (!GEMINI_API_KEY) return false;
@@ -31,16 +33,9 @@ export const checkAiAvailability = async (): Promise<boolean> => {
     });
     return true;
   } catch (error: any) {
-    const errorStr = JSON.stringify(error);
-    const isQuotaError = 
-        errorStr.includes("429") || 
-        errorStr.includes("RESOURCE_EXHAUSTED") || 
-        errorStr.includes("quota") ||
-        error?.status === 429;
-    
-    if (isQuotaError) {
+    if (classifyError(error) === 'quota') {
         console.warn("[AI Check] Quota exceeded via probe.");
-        return false;
+        throw quotaError();
     }
     // If it's another error (network), we assume true to try the main request, 
     // or false if we want to be conservative. Let's return true to let the main error handler catch connectivity issues.
@@ -72,7 +67,12 @@ export const extractDataFromImage = async (base64Image: string): Promise<Extract
     3. SÉRIE:
        - Geralmente 1, 2, 307.
 
-    4. CRITÉRIOS DE REVISÃO HUMANA (needsReview):
+    4. CHAVE DE ACESSO:
+       - Sequência de 44 dígitos impressa abaixo do código de barras ("CHAVE DE ACESSO").
+       - Retorne APENAS os 44 dígitos, sem espaços ou pontos.
+       - Se não estiver legível por completo, retorne string vazia.
+
+    5. CRITÉRIOS DE REVISÃO HUMANA (needsReview):
        Defina "needsReview" como TRUE se:
        - A imagem estiver muito borrada, escura ou de baixa resolução.
        - O número do documento estiver cortado na borda.
@@ -84,11 +84,9 @@ export const extractDataFromImage = async (base64Image: string): Promise<Extract
 
     Retorne JSON estrito.`;
 
-  let attempt = 0;
-  const maxRetries = 3; 
-
-  while (attempt < maxRetries) {
-    try {
+  // Overload, network and timeouts are retried with backoff; quota fails fast (no retries)
+  try {
+    return await withRetry(async () => {
       const response = await ai.models.generateContent({
         model: "gemini-3-flash-preview",
         contents: {
@@ -110,9 +108,10 @@ export const extractDataFromImage = async (base64Image: string): Promise<Extract
               numeroDoc: { type: Type.STRING },
               dataEmissao: { type: Type.STRING },
               serie: { type: Type.STRING },
+              chaveAcesso: { type: Type.STRING, description: "44 dígitos da chave de acesso ou vazio." },
               needsReview: { type: Type.BOOLEAN, description: "True se a imagem estiver ruim, cortada ou ambígua." }
             },
-            required: ["numeroDoc", "dataEmissao", "serie", "needsReview"]
+            required: ["numeroDoc", "dataEmissao", "serie", "chaveAcesso", "needsReview"]
           }
         }
       });
@@ -122,7 +121,7 @@ export const extractDataFromImage = async (base64Image: string): Promise<Extract
 
       // Robust JSON Parsing: Strip Markdown blocks if present
       const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      
+    
       const parsedData = JSON.parse(cleanText) as ExtractedData;
 
       // --- CRITICAL FIX: FORCE SANITIZATION ---
@@ -133,148 +132,43 @@ export const extractDataFromImage = async (base64Image: string): Promise<Extract
       if (parsedData.serie) {
         parsedData.serie = parsedData.serie.replace(/\D/g, '').replace(/^0+/, '');
       }
+      parsedData.chaveAcesso = normalizeChave(parsedData.chaveAcesso || '') || undefined;
       // ----------------------------------------
 
-      return parsedData;
-
-    } catch (error: any) {
-      // Robust Error Parsing: Convert everything to string to catch nested JSON errors
-      const errorStr = JSON.stringify(error);
-      
-      const isQuotaError = 
-        errorStr.includes("429") || 
-        errorStr.includes("RESOURCE_EXHAUSTED") || 
-        errorStr.includes("quota") ||
-        error?.status === 429 ||
-        error?.error?.code === 429;
-
-      const isServerOverload = 
-        errorStr.includes("503") || 
-        error?.status === 503 ||
-        error?.error?.code === 503;
-
-      // FAIL FAST LOGIC FOR QUOTA: NO RETRIES
-      if (isQuotaError) {
-          console.warn(`[AI] Cota atingida. Falha imediata para liberar manual.`);
-          throw new Error("Cota de IA excedida. Preencha manualmente.");
-      }
-
-      // Standard Backoff for 503 (Server Overload)
-      if (isServerOverload && attempt < maxRetries - 1) {
-        attempt++;
-        const waitTime = Math.pow(2, attempt) * 1000;
-        console.warn(`[AI] Erro Servidor (503). Retentando em ${waitTime/1000}s...`);
-        await delay(waitTime);
-        continue;
-      }
+      parsedData.source = 'ai';
 
-      console.error("Gemini Extraction Fatal Error:", error);
-      throw new Error("Falha na leitura IA. Preencha manualmente.");
+      // Cross-check against the access key: a mismatch always goes to human review
+      return applyChaveCheck(parsedData, !!parsedData.needsReview);
+    }, {
+      retries: 2,
+      baseDelayMs: 2000,
+      onRetry: (attempt, code, delayMs) => console.warn(`[AI] Erro transitório (${code}). Tentativa ${attempt + 1} em ${Math.round(delayMs / 1000)}s...`)
+    });
+  } catch (error: any) {
+    if (classifyError(error) === 'quota') {
+      console.warn(`[AI] Cota atingida. Falha imediata para liberar manual.`);
+      throw quotaError();
     }
-  }
 
-  throw new Error("Falha de conexão com IA após múltiplas tentativas.");
+    console.error("Gemini Extraction Fatal Error:", error);
+    throw new Error("Falha na leitura IA. Preencha manualmente.");
+  }
 };
 
 /**
- * Uploads data to Google Apps Script
+ * Uploads one page to the configured archive backend. Transient failures are retried with
+ * backoff; a chunked upload resumes from where the failed attempt stopped (same uploadId).
+ * The error thrown at the end carries its ErrorCode as `code`.
  */
-export const uploadToDrive = async (payload: UploadPayload): Promise<boolean> => {
+export const uploadToDrive = async (payload: UploadPayload, options?: UploadOptions): Promise<boolean> => {
   try {
-    const response = await fetch(APPS_SCRIPT_URL, {
-      method: 'POST',
-      body: JSON.stringify(payload)
+    await withRetry(() => getStorageBackend().upload(payload, options), {
+      onRetry: (attempt, code, delayMs) => console.warn(`[Upload] Falha ${code}. Tentativa ${attempt + 1} em ${Math.round(delayMs / 1000)}s...`)
     });
-    
-    if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
-    }
-    
+    await invalidateSearchCache();
     return true;
   } catch (error) {
-    console.error("GAS Upload Error:", error);
+    console.error("Upload Error:", error);
     throw error;
   }
 };
-
-/**
- * Searches for a document
- */
-export const searchDocument = async (docNumber: string): Promise<SearchResult> => {
-  try {
-    const cacheBuster = Date.now();
-    const url = `${APPS_SCRIPT_URL}?q=${encodeURIComponent(docNumber.trim())}&_t=${cacheBuster}`;
-    
-    console.log(`[API] Searching: ${docNumber}`);
-
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP Error: ${response.status}`);
-    }
-    
-    const backendData = await response.json();
-    
-    let images: string[] = [];
-    const extractImages = (data: any) => {
-        const potentialKeys = ['images', 'imagem', 'url_preview', 'link', 'url', 'arquivo', 'file'];
-        for (const key of potentialKeys) {
-            const val = data[key] || data[key.toUpperCase()] || data[key.charAt(0).toUpperCase() + key.slice(1)];
-            if (val) {
-                if (Array.isArray(val)) return val;
-                if (typeof val === 'string' && val.includes('http')) return [val];
-            }
-        }
-        return [];
-    };
-
-    images = extractImages(backendData);
-
-    return {
-        found: backendData.encontrado === true || images.length > 0,
-        message: backendData.mensagem || (backendData.encontrado ? "Documento localizado." : "Não encontrado."),
-        images: images,
-        url_drive: backendData.url_drive,
-        docInfo: backendData.encontrado ? {
-            numero: backendData.nome || docNumber,
-            serie: backendData.serie || 'N/A',
-            data: backendData.data
-        } : undefined
-    };
-
-  } catch (error) {
-    console.error("[API] Search Error:", error);
-    return { 
-        found: false, 
-        message: "Erro de conexão com o servidor. Verifique sua internet." 
-    };
-  }
-};
-
-/**
- * Gets Autocomplete Suggestions
- */
-export const getSearchSuggestions = async (query: string): Promise<SearchSuggestion[]> => {
-  try {
-    if (!query || query.length < 2) return [];
-
-    const url = `${APPS_SCRIPT_URL}?action=suggest&q=${encodeURIComponent(query)}`;
-    const response = await fetch(url);
-    
-    if (!response.ok) return [];
-
-    const data = await response.json();
-    
-    if (data.suggestions && Array.isArray(data.suggestions)) {
-      return data.suggestions.map((item: any) => ({
-        numero: item.numero,
-        serie: item.serie,
-        label: `CTE ${item.numero} - Série ${item.serie}`
-      }));
-    }
-    
-    return [];
-  } catch (error) {
-    return [];
-  }
-};
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { SearchResponse } from '../types';
+import { searchDocuments } from './search';
+
+export type BulkSearchStatus = 'pending' | 'found' | 'missing' | 'error';
+
+export interface BulkSearchRow {
+  numero: string;
+  status: BulkSearchStatus;
+  serie?: string;
+  dataEmissao?: string;
+  pageCount?: number;
+  link?: string; // First page (or the archive folder) for the report
+  pages?: string[]; // For the ZIP export
+  pdfPages?: string[];
+}
+
+// Minimum gap between lookups: the Apps Script quota counts requests, and 200 at once trips it
+const BULK_SEARCH_INTERVAL_MS = 300;
+
+// Helper: Delay execution
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toRow = (numero: string, response: SearchResponse): BulkSearchRow => {
+  if (response.status === 'error') return { numero, status: 'error' };
+
+  // Only the exact número counts as found
+  const doc = response.exact;
+  if (!doc) return { numero, status: 'missing' };
+
+  return {
+    numero,
+    status: 'found',
+    serie: doc.serie,
+    dataEmissao: doc.dataEmissao,
+    pageCount: doc.pages.length,
+    pages: doc.pages,
+    pdfPages: doc.pdfPages,
+    // Local backends return data URLs: no use in a report
+    link: doc.pages.find(url => url.startsWith('http')) || response.folderUrl
+  };
+};
+
+/**
+ * Looks up each número in order, one request at a time, reporting every row as it arrives.
+ * `shouldStop` is checked between lookups.
+ */
+export const runBulkSearch = async (
+  numbers: string[],
+  onRow: (index: number, row: BulkSearchRow) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> => {
+  for (let i = 0; i < numbers.length; i++) {
+    if (shouldStop()) return;
+
+    const started = Date.now();
+    // Straight from the archive: a stale local copy must not report a document as missing
+    onRow(i, toRow(numbers[i], await searchDocuments(numbers[i], {}, { cache: 'no-store' })));
+
+    const wait = BULK_SEARCH_INTERVAL_MS - (Date.now() - started);
+    if (wait > 0 && i < numbers.length - 1) await delay(wait);
+  }
+};
+
+export const BULK_STATUS_LABELS: Record<BulkSearchStatus, string> = {
+  pending: 'Não verificado',
+  found: 'Encontrado',
+  missing: 'Faltando',
+  error: 'Erro na consulta'
+};
+
+// Helper: One CSV field, quoted when needed
+const csvField = (value: string | number | undefined): string => {
+  const text = String(value ?? '');
+  return /[;"\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Report as CSV with ';' separators and a BOM, so Excel pt-BR opens it with accents right.
+ */
+export const bulkRowsToCsv = (rows: BulkSearchRow[]): Blob => {
+  const header = ['Numero', 'Serie', 'Emissao', 'Situacao', 'Paginas', 'Link'];
+  const lines = rows.map(row => [
+    row.numero, row.serie, row.dataEmissao, BULK_STATUS_LABELS[row.status], row.pageCount, row.link
+  ].map(csvField).join(';'));
+  return new Blob(['﻿' + [header.join(';'), ...lines].join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,72 @@
+import { GroupedDoc } from '../types';
+import { httpError } from '../lib/retry';
+import { buildPdfFromJpegs, JpegPage, toJpegPage } from '../lib/pdfWriter';
+import { createZip, ZipEntry } from '../lib/zip';
+import { convertPdfToJpegPages, isPdfUrl } from '../utils/pdfConverter';
+
+export interface ZipExportResult {
+  zip: Blob | null; // Null when no document could be built
+  failed: GroupedDoc[];
+}
+
+// Helper: Keep file names portable
+const safeName = (value: string): string => value.replace(/[^a-z0-9]/gi, '_');
+
+const fetchBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url, { mode: 'cors', cache: 'no-cache' });
+  if (!response.ok) throw httpError(response.status, `HTTP Error: ${response.status}`);
+  return response.blob();
+};
+
+/**
+ * File name of a document's PDF, e.g. CTE_1467_S1.pdf
+ */
+export const documentFileName = (doc: GroupedDoc): string => `CTE_${safeName(doc.id)}_S${safeName(doc.serie)}.pdf`;
+
+/**
+ * Every page of a document in one PDF, built in the browser. A document archived as a single
+ * original PDF is returned as is; otherwise images are embedded and archived PDFs are
+ * rasterised page by page. Throws when a page cannot be fetched (typically CORS on Drive links).
+ */
+export const buildDocumentPdf = async (doc: GroupedDoc): Promise<Blob> => {
+  const pdfPages = doc.pdfPages || [];
+  if (doc.pages.length === 1 && isPdfUrl(doc.pages[0], pdfPages)) return fetchBlob(doc.pages[0]);
+
+  // Sequential: only one page's bytes are decoded at a time
+  const pages: JpegPage[] = [];
+  for (const url of doc.pages) {
+    const blob = await fetchBlob(url);
+    if (isPdfUrl(url, pdfPages)) {
+      const images = await convertPdfToJpegPages(new File([blob], 'arquivo.pdf', { type: 'application/pdf' }));
+      for (const image of images) pages.push(await toJpegPage(image));
+    } else {
+      pages.push(await toJpegPage(blob));
+    }
+  }
+  return buildPdfFromJpegs(pages);
+};
+
+/**
+ * One ZIP with a PDF per document. A document that fails is left out and reported, so one
+ * blocked link does not cost the whole export.
+ */
+export const buildDocumentsZip = async (
+  docs: GroupedDoc[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ZipExportResult> => {
+  const entries: ZipEntry[] = [];
+  const failed: GroupedDoc[] = [];
+
+  for (let i = 0; i < docs.length; i++) {
+    try {
+      const pdf = await buildDocumentPdf(docs[i]);
+      entries.push({ name: documentFileName(docs[i]), data: new Uint8Array(await pdf.arrayBuffer()) });
+    } catch (err) {
+      console.error(`[Export] CTE ${docs[i].id} falhou:`, err);
+      failed.push(docs[i]);
+    }
+    onProgress?.(i + 1, docs.length);
+  }
+
+  return { zip: entries.length > 0 ? createZip(entries) : null, failed };
+};
@@ -0,0 +1,24 @@
+import { ExtractedData } from '../../types';
+import { classifyError, codedError } from '../../lib/retry';
+
+export type ExtractionProviderId = 'gemini' | 'local-ocr' | 'mock';
+
+/**
+ * Reads número/série/data (and the access key, when possible) from a DACTE image.
+ * Providers throw quotaError() when their quota is exhausted (ErrorCode 'quota'), which is
+ * also what the batch queue checks to switch to manual mode.
+ */
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  /** Cheap probe run once before a batch. False means "skip me for now"; throws the quota error when out of quota. */
+  isAvailable(): Promise<boolean>;
+  /** `base64Image` is a JPEG without the data URL prefix. */
+  extract(base64Image: string): Promise<ExtractedData>;
+}
+
+export const QUOTA_ERROR_MESSAGE = "Cota de IA excedida. Preencha manualmente.";
+
+export const quotaError = (): Error => codedError('quota', QUOTA_ERROR_MESSAGE);
+
+export const isQuotaError = (error: any): boolean => classifyError(error) === 'quota';
@@ -0,0 +1,12 @@
+import { checkAiAvailability, extractDataFromImage } from '../api';
+import { ExtractionProvider } from './extractionProvider';
+
+/**
+ * Gemini Flash (remote, rate-limited, daily quota).
+ */
+export const createGeminiProvider = (): ExtractionProvider => ({
+  id: 'gemini',
+  label: 'Gemini Flash',
+  isAvailable: checkAiAvailability,
+  extract: extractDataFromImage
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyError } from '../../lib/retry';
+import { ExtractionProvider, ExtractionProviderId } from './extractionProvider';
+import { createMockProvider } from './mockProvider';
+import { checkExtractionAvailability, extractWithFallback, isExtractionQuotaExhausted, setExtractionChain } from './index';
+
+// The quota marker is keyed by provider id, so each mock in a chain gets its own
+const mock = (id: ExtractionProviderId, options: Parameters<typeof createMockProvider>[0] = {}): ExtractionProvider =>
+  ({ ...createMockProvider(options), id });
+
+const spy = (provider: ExtractionProvider) => {
+  vi.spyOn(provider, 'extract');
+  vi.spyOn(provider, 'isAvailable');
+  return provider;
+};
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  });
+  // classifyError reads navigator.onLine
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('extractWithFallback', () => {
+  it('moves on to the next provider after a failure', async () => {
+    setExtractionChain([mock('gemini', { fail: 'error' }), mock('local-ocr', { data: { numeroDoc: '777' } })]);
+
+    await expect(extractWithFallback('img')).resolves.toMatchObject({ numeroDoc: '777' });
+  });
+
+  it('marks a provider exhausted only on a quota error', async () => {
+    const failing = spy(mock('gemini', { fail: 'error' }));
+    setExtractionChain([failing, mock('local-ocr')]);
+    await extractWithFallback('img');
+    await extractWithFallback('img');
+    expect(failing.extract).toHaveBeenCalledTimes(2);
+
+    const outOfQuota = spy(mock('gemini', { fail: 'quota' }));
+    setExtractionChain([outOfQuota, mock('local-ocr')]);
+    await extractWithFallback('img');
+    await extractWithFallback('img');
+    expect(outOfQuota.extract).toHaveBeenCalledTimes(1);
+  });
+
+  it('tries an exhausted provider again the next day', async () => {
+    const outOfQuota = spy(mock('gemini', { fail: 'quota' }));
+    setExtractionChain([outOfQuota, mock('local-ocr')]);
+    await extractWithFallback('img');
+    await extractWithFallback('img');
+    expect(outOfQuota.extract).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date('2025-01-16T00:30:00Z'));
+    await extractWithFallback('img');
+    expect(outOfQuota.extract).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws a quota error only when every provider is out of quota', async () => {
+    setExtractionChain([mock('gemini', { fail: 'quota' }), mock('local-ocr', { fail: 'quota' })]);
+    const allQuota = await extractWithFallback('img').catch(e => e);
+    expect(classifyError(allQuota)).toBe('quota');
+
+    setExtractionChain([mock('gemini', { fail: 'quota' }), mock('local-ocr', { fail: 'error' })]);
+    vi.setSystemTime(new Date('2025-01-16T12:00:00Z'));
+    const mixed = await extractWithFallback('img').catch(e => e);
+    expect(classifyError(mixed)).not.toBe('quota');
+    expect(mixed.message).toBe('Falha simulada na leitura.');
+  });
+});
+
+describe('checkExtractionAvailability', () => {
+  it('skips an unavailable provider only until the next probe', async () => {
+    const offline = spy(mock('gemini', { unavailable: true }));
+    setExtractionChain([offline, mock('local-ocr')]);
+
+    await expect(checkExtractionAvailability()).resolves.toBe(true);
+    await extractWithFallback('img');
+    expect(offline.extract).not.toHaveBeenCalled();
+
+    // Not marked for the day: the next probe asks it again
+    await checkExtractionAvailability();
+    expect(offline.isAvailable).toHaveBeenCalledTimes(2);
+    expect(isExtractionQuotaExhausted()).toBe(false);
+  });
+
+  it('marks a provider exhausted when its probe hits the quota', async () => {
+    setExtractionChain([mock('gemini', { fail: 'quota' })]);
+    expect(isExtractionQuotaExhausted()).toBe(false);
+
+    await expect(checkExtractionAvailability()).resolves.toBe(false);
+    expect(isExtractionQuotaExhausted()).toBe(true);
+  });
+});
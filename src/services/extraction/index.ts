@@ -0,0 +1,128 @@
+import { ExtractedData } from '../../types';
+import { ExtractionProvider, ExtractionProviderId, isQuotaError, quotaError } from './extractionProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalOcrProvider } from './localOcrProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { ExtractionProvider, ExtractionProviderId } from './extractionProvider';
+
+// Local override (per browser) of the build-time EXTRACTION_PROVIDERS setting, e.g. "gemini,local-ocr"
+export const EXTRACTION_PROVIDERS_KEY = 'extraction_providers';
+// Per-provider "quota exhausted on YYYY-MM-DD" marker
+const PROVIDER_QUOTA_KEY_PREFIX = 'extraction_quota_exceeded_date:';
+const DEFAULT_CHAIN: ExtractionProviderId[] = ['gemini', 'local-ocr'];
+
+const PROVIDER_FACTORIES: Record<ExtractionProviderId, () => ExtractionProvider> = {
+  'gemini': createGeminiProvider,
+  'local-ocr': createLocalOcrProvider,
+  'mock': createMockProvider
+};
+
+let chain: ExtractionProvider[] | null = null;
+// Providers whose last probe said "not now" (no key, offline...): skipped until the next probe
+const skippedThisRun = new Set<ExtractionProviderId>();
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const parseChain = (value?: string | null): ExtractionProviderId[] =>
+  (value || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter((id): id is ExtractionProviderId => id in PROVIDER_FACTORIES);
+
+const isExhausted = (provider: ExtractionProvider): boolean =>
+  localStorage.getItem(PROVIDER_QUOTA_KEY_PREFIX + provider.id) === today();
+
+const markExhausted = (provider: ExtractionProvider) => {
+  console.warn(`[Extraction] ${provider.label}: cota atingida, usando o próximo provedor.`);
+  localStorage.setItem(PROVIDER_QUOTA_KEY_PREFIX + provider.id, today());
+};
+
+/**
+ * Providers in fallback order: localStorage override, then EXTRACTION_PROVIDERS env, then Gemini -> OCR local.
+ */
+export const getExtractionChain = (): ExtractionProvider[] => {
+  if (chain) return chain;
+
+  const configured = parseChain(localStorage.getItem(EXTRACTION_PROVIDERS_KEY));
+  const fromEnv = parseChain(process.env.EXTRACTION_PROVIDERS);
+  const ids = configured.length > 0 ? configured : (fromEnv.length > 0 ? fromEnv : DEFAULT_CHAIN);
+
+  chain = ids.map(id => PROVIDER_FACTORIES[id]());
+  return chain;
+};
+
+/**
+ * Replaces the chain at runtime (ids are persisted for this browser) or injects providers (tests).
+ */
+export const setExtractionChain = (providers: ExtractionProviderId[] | ExtractionProvider[]): ExtractionProvider[] => {
+  if (providers.length > 0 && typeof providers[0] === 'string') {
+    const ids = providers as ExtractionProviderId[];
+    localStorage.setItem(EXTRACTION_PROVIDERS_KEY, ids.join(','));
+    chain = ids.map(id => PROVIDER_FACTORIES[id]());
+  } else {
+    chain = providers as ExtractionProvider[];
+  }
+  return chain;
+};
+
+/**
+ * True if at least one provider in the chain can take work. Only a quota hit in the probe
+ * skips a provider for the rest of the day; a plain "not available" (or a probe error) skips
+ * it until the next probe.
+ */
+export const checkExtractionAvailability = async (): Promise<boolean> => {
+  skippedThisRun.clear();
+  for (const provider of getExtractionChain()) {
+    if (isExhausted(provider)) continue;
+    try {
+      if (await provider.isAvailable()) return true;
+    } catch (error: any) {
+      if (isQuotaError(error)) {
+        markExhausted(provider);
+        continue;
+      }
+      console.warn(`[Extraction] ${provider.label}: verificação falhou:`, error?.message);
+    }
+    skippedThisRun.add(provider.id);
+  }
+  return false;
+};
+
+/**
+ * True when every provider in the chain is out of quota for today.
+ */
+export const isExtractionQuotaExhausted = (): boolean => getExtractionChain().every(isExhausted);
+
+/**
+ * Runs the chain in order until one provider returns data. Quota hits mark the provider
+ * as exhausted for the day; any other failure just moves on to the next one.
+ * Throws the quota error only when every provider is out of quota.
+ */
+export const extractWithFallback = async (base64Image: string): Promise<ExtractedData> => {
+  let lastError: Error | null = null;
+  let allQuota = true;
+
+  for (const provider of getExtractionChain()) {
+    if (isExhausted(provider)) continue;
+    if (skippedThisRun.has(provider.id)) {
+      allQuota = false;
+      continue;
+    }
+
+    try {
+      return await provider.extract(base64Image);
+    } catch (error: any) {
+      if (isQuotaError(error)) {
+        markExhausted(provider);
+      } else {
+        allQuota = false;
+        console.warn(`[Extraction] ${provider.label} falhou:`, error?.message);
+      }
+      lastError = error;
+    }
+  }
+
+  if (allQuota) throw quotaError();
+  throw lastError || new Error("Falha na leitura. Preencha manualmente.");
+};
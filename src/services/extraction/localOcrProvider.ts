@@ -0,0 +1,92 @@
+import { createWorker } from 'tesseract.js';
+import { ExtractedData } from '../../types';
+import { applyChaveCheck, CHAVE_LENGTH, dataFromChave, isValidChave, parseChave } from '../../lib/chaveAcesso';
+import { ExtractionProvider } from './extractionProvider';
+
+type OcrWorker = Awaited<ReturnType<typeof createWorker>>;
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+// The worker downloads its engine and the Portuguese model once, then is reused
+const getWorker = (): Promise<OcrWorker> => {
+  if (!workerPromise) {
+    workerPromise = createWorker('por').catch(err => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+};
+
+// Helper: Look for a valid 44-digit key on any line (the DACTE prints it in groups of 4)
+const findChave = (text: string): string | null => {
+  for (const line of text.split('\n')) {
+    const digits = line.replace(/\D/g, '');
+    for (let i = 0; i + CHAVE_LENGTH <= digits.length; i++) {
+      const candidate = digits.slice(i, i + CHAVE_LENGTH);
+      if (isValidChave(candidate)) return candidate;
+    }
+  }
+  return null;
+};
+
+const cleanNumber = (value?: string): string => (value || '').replace(/\D/g, '').replace(/^0+/, '');
+
+/**
+ * Best-effort field extraction from the raw OCR text of a DACTE.
+ */
+export const parseDacteText = (text: string): ExtractedData => {
+  const upper = text.toUpperCase();
+
+  const numero = upper.match(/N[ÚU]MERO[^\d\n]{0,20}([\d.]{1,12})/);
+  const serie = upper.match(/S[ÉE]RIE[^\d\n]{0,20}(\d{1,3})/);
+  // Prefer the date that follows "EMISSÃO"; fall back to the first date on the page
+  const emissao = upper.match(/EMISS[ÃA]O[\s\S]{0,40}?(\d{2}\/\d{2}\/\d{4})/) || upper.match(/(\d{2}\/\d{2}\/\d{4})/);
+
+  const ocrData: ExtractedData = {
+    numeroDoc: cleanNumber(numero?.[1]),
+    serie: cleanNumber(serie?.[1]),
+    dataEmissao: emissao?.[1] || '',
+    source: 'ocr'
+  };
+
+  const chave = findChave(text);
+  const info = chave ? parseChave(chave) : null;
+  if (info) {
+    // The key is check-digit validated: trust it over the free text, keep the OCR date if found
+    const fromChave = dataFromChave(info);
+    return ocrData.dataEmissao
+      ? applyChaveCheck({ ...fromChave, dataEmissao: ocrData.dataEmissao, source: 'ocr' })
+      : { ...fromChave, source: 'ocr' };
+  }
+
+  // Without a key nothing cross-checks the OCR: always ask for a human look
+  return {
+    ...ocrData,
+    needsReview: true,
+    reviewReasons: ['Leitura por OCR local. Confira os campos.']
+  };
+};
+
+/**
+ * In-browser OCR (Tesseract). No quota, slower and less accurate than Gemini.
+ */
+export const createLocalOcrProvider = (): ExtractionProvider => ({
+  id: 'local-ocr',
+  label: 'OCR local (Tesseract)',
+
+  async isAvailable() {
+    return typeof Worker !== 'undefined';
+  },
+
+  async extract(base64Image: string) {
+    try {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(`data:image/jpeg;base64,${base64Image}`);
+      return parseDacteText(data.text || '');
+    } catch (error) {
+      console.error("Local OCR Error:", error);
+      throw new Error("Falha no OCR local. Preencha manualmente.");
+    }
+  }
+});
@@ -0,0 +1,36 @@
+import { ExtractedData } from '../../types';
+import { ExtractionProvider, quotaError } from './extractionProvider';
+
+interface MockProviderOptions {
+  data?: Partial<ExtractedData>;
+  fail?: 'quota' | 'error'; // Simulate a quota hit or a generic failure
+  unavailable?: boolean; // Probe answers "not now" (like Gemini without an API key)
+  delayMs?: number;
+}
+
+/**
+ * Deterministic provider for tests and offline demos. No network, no quota.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): ExtractionProvider => ({
+  id: 'mock',
+  label: 'Simulado (testes)',
+
+  async isAvailable() {
+    if (options.fail === 'quota') throw quotaError();
+    return !options.unavailable;
+  },
+
+  async extract() {
+    if (options.delayMs) await new Promise(r => setTimeout(r, options.delayMs));
+    if (options.fail === 'quota') throw quotaError();
+    if (options.fail === 'error') throw new Error("Falha simulada na leitura.");
+
+    return {
+      numeroDoc: '12345',
+      serie: '1',
+      dataEmissao: '01/01/2025',
+      needsReview: false,
+      ...options.data
+    };
+  }
+});
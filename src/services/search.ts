@@ -0,0 +1,186 @@
+import { ArchiveSearchResponse, GroupedDoc, SearchQuery, SearchResponse, SearchSource, SearchSuggestion } from '../types';
+import { parseChave } from '../lib/chaveAcesso';
+import { createThumbnail } from '../lib/imagePipeline';
+import { classifyError } from '../lib/retry';
+import { hasFilters, serializeSearchQuery } from '../lib/searchQuery';
+import { clearCachedSearches, getCachedSearch, getViewedPages, listViewedDocs, putCachedSearch, saveViewedDoc, touchViewedDoc } from '../lib/searchCache';
+import { getStorageBackend } from './storage';
+
+// The one way the app looks documents up: the search screen, the bulk check and the exports all
+// go through here. Backend field variants are resolved by the storage adapters (GroupedDoc).
+// Remote backends are cached in IndexedDB (lib/searchCache) so repeated and offline lookups work.
+
+// Autocomplete and search-as-you-type start at this many digits
+export const MIN_QUERY_DIGITS = 2;
+// A cached response younger than this is answered without asking the archive
+export const SEARCH_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface SearchOptions {
+  /**
+   * 'default': a fresh local copy if there is one, else the archive (old copies when it fails).
+   * 'reload': always ask the archive (manual refresh); old copies still cover a failure.
+   * 'no-store': archive only, nothing read or written locally (completeness checks).
+   */
+  cache?: 'default' | 'reload' | 'no-store';
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  timeout: 'O servidor demorou para responder. Tente novamente.',
+  server: 'O servidor de arquivos falhou. Tente novamente em instantes.'
+};
+const DEFAULT_ERROR_MESSAGE = 'Erro de conexão com o servidor. Verifique sua internet.';
+
+/**
+ * Número as the archive stores it: digits only, without leading zeros ("000.126.905" -> "126905").
+ * A 44-digit access key gives the número it encodes.
+ */
+export const normalizeNumero = (input: string): string => {
+  const digits = (input || '').replace(/\D/g, '');
+  const chave = parseChave(digits);
+  return chave ? chave.numero : digits.replace(/^0+/, '');
+};
+
+// Helper: Document whose número is exactly `numero` (the backends match "contains")
+const findExact = (docs: GroupedDoc[], numero: string): GroupedDoc | undefined =>
+  numero ? docs.find(doc => normalizeNumero(doc.id) === numero) : undefined;
+
+const toResponse = (numero: string, archive: ArchiveSearchResponse, source: SearchSource, cachedAt?: number): SearchResponse => ({
+  status: archive.docs.length > 0 ? 'found' : 'not_found',
+  docs: archive.docs,
+  exact: findExact(archive.docs, numero),
+  message: archive.message || (archive.docs.length > 0 ? 'Documento localizado.' : 'Não encontrado.'),
+  folderUrl: archive.folderUrl,
+  source,
+  cachedAt
+});
+
+/**
+ * The document with its saved page files in place of the archive links, when this browser
+ * kept them (opened before); otherwise the document as given. The saved pages come as blob:
+ * URLs: whoever shows the document releases them with releaseOfflinePages.
+ */
+export const withOfflinePages = async (doc: GroupedDoc): Promise<GroupedDoc> => {
+  const blobs = await getViewedPages(doc);
+  if (!blobs || blobs.length !== doc.pages.length) return doc;
+
+  const pdfPages = doc.pdfPages || [];
+  const pages = blobs.map((blob, i) => URL.createObjectURL(
+    pdfPages.includes(doc.pages[i]) ? new Blob([blob], { type: 'application/pdf' }) : blob
+  ));
+  return { ...doc, pages, pdfPages: pages.filter((_, i) => pdfPages.includes(doc.pages[i])) };
+};
+
+/**
+ * Revokes the blob: page URLs withOfflinePages made for these documents (archive links are left alone).
+ */
+export const releaseOfflinePages = (docs: GroupedDoc[]): void => {
+  docs.forEach(doc => doc.pages.forEach(url => {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+  }));
+};
+
+// Helper: What is known locally when the archive cannot be reached: the last response for the
+// same query, else (plain número lookups) a document opened before
+const offlineFallback = async (key: string, numero: string, filtered: boolean): Promise<SearchResponse | undefined> => {
+  const cached = await getCachedSearch(key);
+  if (cached) {
+    const docs = await Promise.all(cached.response.docs.map(withOfflinePages));
+    return toResponse(numero, { ...cached.response, docs }, 'offline', cached.cachedAt);
+  }
+  if (filtered || !numero) return undefined;
+
+  const viewed = (await listViewedDocs()).filter(entry => normalizeNumero(entry.doc.id) === numero && entry.availableOffline);
+  if (viewed.length === 0) return undefined;
+  const docs = await Promise.all(viewed.map(entry => withOfflinePages(entry.doc)));
+  return toResponse(numero, { docs, message: 'Cópia salva neste aparelho.' }, 'offline', viewed[0].viewedAt);
+};
+
+/**
+ * Searches the archive by número (typed, pasted with dots or as an access key) and, when any is
+ * set, the structured filters. Never throws: a failed lookup with nothing saved locally comes
+ * back with status 'error'.
+ */
+export const searchDocuments = async (
+  text: string,
+  filters: SearchQuery = {},
+  options: SearchOptions = {}
+): Promise<SearchResponse> => {
+  const numero = normalizeNumero(text);
+  const filtered = hasFilters(filters);
+  const backend = getStorageBackend();
+  const cacheMode = backend.remote ? (options.cache || 'default') : 'no-store';
+  const key = `${backend.id}?${serializeSearchQuery({ ...filters, text: numero }).toString()}`;
+
+  if (cacheMode === 'default') {
+    const cached = await getCachedSearch(key);
+    if (cached && Date.now() - cached.cachedAt < SEARCH_CACHE_TTL_MS) {
+      return toResponse(numero, cached.response, 'cache', cached.cachedAt);
+    }
+  }
+
+  try {
+    const archive = filtered
+      ? await backend.find({ ...filters, text: numero })
+      : await backend.search(numero);
+    if (cacheMode !== 'no-store') await putCachedSearch(key, archive);
+    return toResponse(numero, archive, 'network');
+  } catch (error) {
+    console.error('[Search] Error:', error);
+    const errorCode = classifyError(error);
+
+    if (cacheMode !== 'no-store') {
+      const fallback = await offlineFallback(key, numero, filtered);
+      if (fallback) return fallback;
+    }
+    return { status: 'error', docs: [], message: ERROR_MESSAGES[errorCode] || DEFAULT_ERROR_MESSAGE, errorCode };
+  }
+};
+
+/**
+ * Drops the cached responses after the archive changed (upload, delete), so a search right
+ * after it does not answer a stale "Não encontrado".
+ */
+export const invalidateSearchCache = (): Promise<void> => clearCachedSearches();
+
+/**
+ * Autocomplete entries for a partial número; documents opened before fill in when the archive
+ * gives nothing (e.g. offline). Never throws.
+ */
+export const suggestDocuments = async (text: string): Promise<SearchSuggestion[]> => {
+  const numero = normalizeNumero(text);
+  if (numero.length < MIN_QUERY_DIGITS) return [];
+
+  const backend = getStorageBackend();
+  const suggestions = await backend.suggest(numero);
+  if (suggestions.length > 0 || !backend.remote) return suggestions;
+
+  return (await listViewedDocs())
+    .filter(entry => entry.doc.id.startsWith(numero))
+    .map(({ doc }) => ({ numero: doc.id, serie: doc.serie, label: `CTE ${doc.id} - Série ${doc.serie}` }));
+};
+
+// Helper: One archived page file, or undefined when it cannot be fetched (CORS, offline)
+const fetchPage = async (url: string): Promise<Blob | undefined> => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    return response.ok ? await response.blob() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Keeps an opened document (pages and a thumbnail) for instant and offline reopening.
+ * Local backends and documents already shown from the saved copy are skipped.
+ */
+export const rememberViewedDoc = async (doc: GroupedDoc): Promise<void> => {
+  if (!getStorageBackend().remote) return;
+  if (doc.pages.some(url => url.startsWith('blob:'))) return;
+  if (await touchViewedDoc(doc)) return;
+
+  const pages = await Promise.all(doc.pages.map(fetchPage));
+  const first = pages[0];
+  const isImage = !!first && !(doc.pdfPages || []).includes(doc.pages[0]);
+  const thumbnail = isImage ? await createThumbnail(first!).catch(() => undefined) : undefined;
+  await saveViewedDoc(doc, pages, thumbnail);
+};
@@ -0,0 +1,269 @@
+import { GroupedDoc, SearchQuery, SearchSuggestion, UploadPayload } from '../../types';
+import { httpError } from '../../lib/retry';
+import { matchesSearchQuery, serializeSearchQuery } from '../../lib/searchQuery';
+import { StorageBackend, UploadOptions } from './storageBackend';
+
+const DEFAULT_APPS_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbzA9xFaLJ2UKEKUP4O-eM1zVGxaq51oZDxFjQHxlLOiy044xTftAwNnigxMdC3Q1PyH/exec";
+
+// Keys the script has used over time for the page image link, most specific first
+const PAGE_LINK_KEYS = ['link_preview', 'imagem', 'url_preview', 'url', 'link', 'arquivo', 'file'];
+const DOC_ID_KEYS = ['numero_documento', 'nome', 'numero', 'id'];
+const HASH_KEYS = ['image_hash', 'imageHash', 'hash'];
+const MIME_KEYS = ['mime_type', 'mimeType', 'tipo'];
+const UPLOADED_AT_KEYS = ['data_upload', 'uploaded_at', 'data_envio', 'timestamp'];
+const UPLOADER_KEYS = ['usuario', 'uploader', 'enviado_por'];
+
+// One upload request (a page or a chunk); past this it counts as a timeout and is retried
+const UPLOAD_TIMEOUT_MS = 60000;
+
+// Helper: Read a key in any of the casings the script produces (imagem, IMAGEM, Imagem)
+const readKey = (record: any, key: string): any =>
+  record?.[key] ?? record?.[key.toUpperCase()] ?? record?.[key.charAt(0).toUpperCase() + key.slice(1)];
+
+// Helper: The response may be an array, a wrapper ({results}/{data}) or a single record
+const toRecords = (rawData: any): any[] => {
+  if (Array.isArray(rawData)) return rawData;
+  if (rawData && typeof rawData === 'object') {
+    if (Array.isArray(rawData.results)) return rawData.results;
+    if (Array.isArray(rawData.data)) return rawData.data;
+    if (rawData.encontrado) return [rawData];
+  }
+  return [];
+};
+
+const pageLinksOf = (record: any): string[] => {
+  const links: string[] = [];
+  const add = (value: any) => {
+    if (typeof value === 'string' && value.includes('http') && !links.includes(value)) links.push(value);
+  };
+
+  for (const key of PAGE_LINK_KEYS) {
+    const value = readKey(record, key);
+    if (Array.isArray(value)) value.forEach(add);
+    else add(value);
+  }
+  const images = readKey(record, 'images');
+  if (Array.isArray(images)) images.forEach(add);
+
+  // Older rows only carry the Drive link
+  if (links.length === 0) add(record.url_drive);
+  return links;
+};
+
+// Helper: Apps Script answers 200 even when the script failed (an HTML login/error page, or our
+// own error JSON). Strict actions (upload_chunk, delete; see README, "Apps Script contract") only
+// count a JSON body with status "ok" as done. The legacy single-page upload predates that
+// contract: any other 2xx body is accepted there, an explicit error or an HTML page is not.
+const readScriptResult = async (response: Response, action: string, strict: boolean): Promise<any> => {
+  if (!response.ok) {
+    throw httpError(response.status, `${action} failed: ${response.statusText}`);
+  }
+
+  const text = (await response.text()).trim();
+  let result: any;
+  try {
+    result = text ? JSON.parse(text) : undefined;
+  } catch {
+    if (strict || /^<(!doctype|html)/i.test(text)) {
+      throw httpError(502, `${action} failed: the script did not answer JSON`);
+    }
+    return undefined;
+  }
+
+  const status = String(result?.status ?? '').toLowerCase();
+  if (strict ? status !== 'ok' : status === 'error') {
+    throw httpError(502, `${action} failed: ${result?.mensagem || result?.message || `status "${status || 'ausente'}"`}`);
+  }
+  return result;
+};
+
+// Helper: Plain POST. Custom headers or upload progress listeners would make the browser send
+// a CORS preflight, which Apps Script does not answer; progress is therefore counted per chunk.
+const postJson = async (scriptUrl: string, body: object, action: string, strict: boolean = true): Promise<any> => {
+  const response = await fetch(scriptUrl, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS)
+  });
+  return readScriptResult(response, action, strict);
+};
+
+// Helper: Chunks the script already holds for an interrupted upload (0 when it cannot tell)
+const receivedChunks = async (scriptUrl: string, uploadId: string): Promise<number> => {
+  try {
+    const response = await fetch(`${scriptUrl}?action=upload_status&uploadId=${encodeURIComponent(uploadId)}&_t=${Date.now()}`);
+    if (!response.ok) return 0;
+    const data = await response.json();
+    return Math.max(0, Number(data?.received) || 0);
+  } catch {
+    return 0;
+  }
+};
+
+// Helper: ISO timestamp of an upload time the script wrote as a date string or "DD/MM/AAAA HH:mm"
+const toIsoTimestamp = (value: any): string | undefined => {
+  if (!value) return undefined;
+  const text = String(value).trim();
+  const br = text.match(/^(\d{2})\/(\d{2})\/(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  const date = br
+    ? new Date(Number(br[3]), Number(br[2]) - 1, Number(br[1]), Number(br[4] || 0), Number(br[5] || 0), Number(br[6] || 0))
+    : new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Groups raw rows (one per uploaded page) into documents keyed by número and série.
+ */
+const groupRecords = (records: any[]): GroupedDoc[] => {
+  const groups: Record<string, GroupedDoc> = {};
+
+  records.forEach(record => {
+    const rawId = DOC_ID_KEYS.map(key => record[key]).find(value => value !== undefined && value !== null);
+    const docId = String(rawId ?? '').trim();
+    if (!docId) return;
+
+    // Same número in two séries are two documents (a série range query must not merge them)
+    const serie = String(record.serie || 'N/A');
+    const groupKey = `${docId}|${serie}`;
+    if (!groups[groupKey]) {
+      groups[groupKey] = {
+        id: docId,
+        serie,
+        pages: [],
+        dataEmissao: record.data || undefined,
+        pageHashes: [],
+        pdfPages: []
+      };
+    }
+    const group = groups[groupKey];
+
+    // Latest page wins: "uploaded yesterday" is about the last time the document was touched
+    const uploadedAt = toIsoTimestamp(UPLOADED_AT_KEYS.map(key => record[key]).find(Boolean));
+    if (uploadedAt && (!group.uploadedAt || uploadedAt > group.uploadedAt)) {
+      group.uploadedAt = uploadedAt;
+      group.uploader = UPLOADER_KEYS.map(key => record[key]).find(Boolean) || group.uploader;
+    }
+
+    // Rows sent before hashing existed simply have none
+    const hash = HASH_KEYS.map(key => record[key]).find(value => typeof value === 'string' && value);
+    if (hash && !group.pageHashes!.includes(hash)) group.pageHashes!.push(hash);
+
+    // Rows archived as the original PDF (keepOriginalPdf) point at a PDF file, not an image
+    const isPdf = MIME_KEYS.some(key => record[key] === 'application/pdf');
+    pageLinksOf(record).forEach(link => {
+      if (!group.pages.includes(link)) group.pages.push(link);
+      if (isPdf && !group.pdfPages!.includes(link)) group.pdfPages!.push(link);
+    });
+  });
+
+  return Object.values(groups);
+};
+
+/**
+ * Google Apps Script web app that writes to Drive (original backend).
+ */
+export const createAppsScriptBackend = (scriptUrl: string = DEFAULT_APPS_SCRIPT_URL): StorageBackend => ({
+  id: 'apps-script',
+  label: 'Google Drive (Apps Script)',
+  remote: true,
+
+  async upload(payload: UploadPayload, options: UploadOptions = {}) {
+    const { imagemBase64, ...meta } = payload;
+    const total = imagemBase64.length;
+    const chunkSize = options.chunkSize;
+
+    // Chunking is opt-in (UploadSettings.chunkedUpload): the script must implement upload_chunk
+    if (!chunkSize || total <= chunkSize) {
+      // Legacy request: the deployed script may answer it without a status
+      await postJson(scriptUrl, payload, 'upload', false);
+      options.onProgress?.(total, total);
+      return;
+    }
+
+    // Chunked: the script keeps the pieces per uploadId and writes the file after the last one.
+    // A retry with the same uploadId resumes from the first chunk the script does not have.
+    const uploadId = options.uploadId || crypto.randomUUID();
+    const chunkCount = Math.ceil(total / chunkSize);
+    const start = options.uploadId ? Math.min(await receivedChunks(scriptUrl, uploadId), chunkCount - 1) : 0;
+
+    for (let index = start; index < chunkCount; index++) {
+      options.onProgress?.(index * chunkSize, total);
+      await postJson(scriptUrl, {
+        ...meta,
+        action: 'upload_chunk',
+        uploadId,
+        index,
+        total: chunkCount,
+        data: imagemBase64.slice(index * chunkSize, (index + 1) * chunkSize)
+      }, 'upload_chunk');
+    }
+    options.onProgress?.(total, total);
+  },
+
+  async search(query: string) {
+    const cacheBuster = Date.now();
+    const url = `${scriptUrl}?q=${encodeURIComponent(query.trim())}&_t=${cacheBuster}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw httpError(response.status, `HTTP Error: ${response.status}`);
+    }
+
+    const rawData = await response.json();
+    return {
+      docs: groupRecords(toRecords(rawData)),
+      message: rawData?.mensagem,
+      folderUrl: rawData?.url_drive
+    };
+  },
+
+  // Filters go to the script as GET parameters; results are checked again here
+  async find(query: SearchQuery) {
+    const url = `${scriptUrl}?action=search&${serializeSearchQuery(query).toString()}&_t=${Date.now()}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw httpError(response.status, `HTTP Error: ${response.status}`);
+    }
+
+    const rawData = await response.json();
+    return {
+      docs: groupRecords(toRecords(rawData)).filter(doc => matchesSearchQuery(doc, query)),
+      message: rawData?.mensagem,
+      folderUrl: rawData?.url_drive
+    };
+  },
+
+  async suggest(query: string): Promise<SearchSuggestion[]> {
+    try {
+      const url = `${scriptUrl}?action=suggest&q=${encodeURIComponent(query)}`;
+      const response = await fetch(url);
+      if (!response.ok) return [];
+
+      const data = await response.json();
+      if (data.suggestions && Array.isArray(data.suggestions)) {
+        return data.suggestions.map((item: any) => ({
+          numero: item.numero,
+          serie: item.serie,
+          label: `CTE ${item.numero} - Série ${item.serie}`
+        }));
+      }
+      return [];
+    } catch (error) {
+      return [];
+    }
+  },
+
+  // Replacing a duplicate depends on this: without a confirmed delete nothing is uploaded
+  async remove(numeroDoc: string, serie: string) {
+    await postJson(scriptUrl, { action: 'delete', numeroDoc, serie }, 'delete');
+  },
+
+  async list() {
+    const response = await fetch(`${scriptUrl}?action=list&_t=${Date.now()}`);
+    if (!response.ok) {
+      throw httpError(response.status, `HTTP Error: ${response.status}`);
+    }
+    return groupRecords(toRecords(await response.json()));
+  }
+});
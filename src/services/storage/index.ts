@@ -0,0 +1,49 @@
+import { StorageBackend, StorageBackendId } from './storageBackend';
+import { createAppsScriptBackend } from './appsScriptBackend';
+import { createIndexedDbBackend, createMemoryBackend } from './localBackend';
+
+export type { StorageBackend, StorageBackendId, UploadOptions } from './storageBackend';
+
+// Local override (per browser) of the build-time STORAGE_BACKEND setting
+export const STORAGE_BACKEND_KEY = 'storage_backend';
+const BACKEND_IDS: StorageBackendId[] = ['apps-script', 'indexeddb', 'memory'];
+
+const isBackendId = (value: unknown): value is StorageBackendId =>
+  typeof value === 'string' && BACKEND_IDS.includes(value as StorageBackendId);
+
+let current: StorageBackend | null = null;
+
+const createBackend = (id: StorageBackendId): StorageBackend => {
+  switch (id) {
+    case 'indexeddb': return createIndexedDbBackend();
+    case 'memory': return createMemoryBackend();
+    default: return createAppsScriptBackend(process.env.APPS_SCRIPT_URL || undefined);
+  }
+};
+
+/**
+ * The configured backend: localStorage override, then the STORAGE_BACKEND env, then Apps Script.
+ */
+export const getStorageBackend = (): StorageBackend => {
+  if (current) return current;
+
+  const override = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_BACKEND_KEY) : null;
+  const configured = process.env.STORAGE_BACKEND;
+  const id = isBackendId(override) ? override : (isBackendId(configured) ? configured : 'apps-script');
+
+  current = createBackend(id);
+  return current;
+};
+
+/**
+ * Switches backend at runtime (persisted for this browser) or injects one (tests).
+ */
+export const setStorageBackend = (backend: StorageBackendId | StorageBackend): StorageBackend => {
+  if (typeof backend === 'string') {
+    localStorage.setItem(STORAGE_BACKEND_KEY, backend);
+    current = createBackend(backend);
+  } else {
+    current = backend;
+  }
+  return current;
+};
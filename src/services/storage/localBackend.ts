@@ -0,0 +1,149 @@
+import { GroupedDoc, SearchQuery, SearchSuggestion, UploadPayload } from '../../types';
+import { STORES, withStore, promisifyRequest } from '../../lib/indexedDb';
+import { matchesSearchQuery } from '../../lib/searchQuery';
+import { StorageBackend, StorageBackendId, UploadOptions } from './storageBackend';
+
+// One uploaded page, as kept by the local adapters
+interface ArchivedPage {
+  id: string;
+  numeroDoc: string;
+  serie: string;
+  dataEmissao: string; // DD/MM/AAAA
+  mimeType: string;
+  base64: string;
+  imageHash?: string;
+  uploader?: string;
+  uploadedAt: string; // ISO timestamp
+}
+
+// Where the local adapters keep their pages
+interface PageStore {
+  all(): Promise<ArchivedPage[]>;
+  add(page: ArchivedPage): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+const memoryPageStore = (): PageStore => {
+  let pages: ArchivedPage[] = [];
+  return {
+    all: async () => pages.slice(),
+    add: async page => { pages.push(page); },
+    remove: async ids => { pages = pages.filter(p => !ids.includes(p.id)); }
+  };
+};
+
+const indexedDbPageStore = (): PageStore => ({
+  all: () => withStore(STORES.archivePages, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<ArchivedPage[]>)
+  ),
+  add: async page => {
+    await withStore(STORES.archivePages, 'readwrite', store => { store.put(page); });
+  },
+  remove: async ids => {
+    await withStore(STORES.archivePages, 'readwrite', store => {
+      ids.forEach(id => store.delete(id));
+    });
+  }
+});
+
+// Helper: Group pages per número and série (same rule as the Apps Script adapter), oldest page first
+const groupPages = (pages: ArchivedPage[]): GroupedDoc[] => {
+  const groups: Record<string, GroupedDoc> = {};
+  pages
+    .slice()
+    .sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt))
+    .forEach(page => {
+      const key = `${page.numeroDoc}|${page.serie}`;
+      if (!groups[key]) {
+        groups[key] = { id: page.numeroDoc, serie: page.serie, pages: [], dataEmissao: page.dataEmissao, pageHashes: [], pdfPages: [] };
+      }
+      const url = `data:${page.mimeType};base64,${page.base64}`;
+      groups[key].pages.push(url);
+      if (page.mimeType === 'application/pdf') groups[key].pdfPages!.push(url);
+      if (page.imageHash) groups[key].pageHashes!.push(page.imageHash);
+      // Oldest first, so the last page seen is the latest upload
+      groups[key].uploadedAt = page.uploadedAt;
+      groups[key].uploader = page.uploader;
+    });
+  return Object.values(groups);
+};
+
+const createLocalBackend = (id: StorageBackendId, label: string, store: PageStore): StorageBackend => ({
+  id,
+  label,
+  remote: false,
+
+  // Nothing goes over the network: progress jumps straight to done
+  async upload(payload: UploadPayload, options: UploadOptions = {}) {
+    await store.add({
+      id: crypto.randomUUID(),
+      numeroDoc: payload.numeroDoc,
+      serie: payload.serie,
+      dataEmissao: `${payload.dia}/${payload.mes}/${payload.ano}`,
+      mimeType: payload.mimeType,
+      base64: payload.imagemBase64,
+      imageHash: payload.imageHash,
+      uploader: payload.uploader,
+      uploadedAt: new Date().toISOString()
+    });
+    options.onProgress?.(payload.imagemBase64.length, payload.imagemBase64.length);
+  },
+
+  async search(query: string) {
+    const q = query.trim().replace(/^0+/, '');
+    const pages = (await store.all()).filter(p => q && p.numeroDoc.includes(q));
+    const docs = groupPages(pages);
+    return {
+      docs,
+      message: docs.length > 0 ? 'Documento localizado.' : 'Não encontrado.'
+    };
+  },
+
+  async find(query: SearchQuery) {
+    const docs = groupPages(await store.all()).filter(doc => matchesSearchQuery(doc, query));
+    return {
+      docs,
+      message: docs.length > 0 ? `${docs.length} documento(s) encontrado(s).` : 'Não encontrado.'
+    };
+  },
+
+  async suggest(query: string): Promise<SearchSuggestion[]> {
+    try {
+      const pages = await store.all();
+      const seen = new Set<string>();
+      const suggestions: SearchSuggestion[] = [];
+      pages
+        .filter(p => p.numeroDoc.startsWith(query))
+        .forEach(p => {
+          const key = `${p.numeroDoc}-${p.serie}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          suggestions.push({ numero: p.numeroDoc, serie: p.serie, label: `CTE ${p.numeroDoc} - Série ${p.serie}` });
+        });
+      return suggestions.slice(0, 10);
+    } catch (error) {
+      return [];
+    }
+  },
+
+  async remove(numeroDoc: string, serie: string) {
+    const pages = await store.all();
+    await store.remove(pages.filter(p => p.numeroDoc === numeroDoc && p.serie === serie).map(p => p.id));
+  },
+
+  async list() {
+    return groupPages(await store.all());
+  }
+});
+
+/**
+ * Archive kept in this browser's IndexedDB. Survives reloads; useful offline and for demos.
+ */
+export const createIndexedDbBackend = (): StorageBackend =>
+  createLocalBackend('indexeddb', 'Local (IndexedDB)', indexedDbPageStore());
+
+/**
+ * Archive kept in memory only (lost on reload). Meant for tests.
+ */
+export const createMemoryBackend = (): StorageBackend =>
+  createLocalBackend('memory', 'Memória (testes)', memoryPageStore());
@@ -0,0 +1,35 @@
+import { ArchiveSearchResponse, GroupedDoc, SearchQuery, SearchSuggestion, UploadPayload } from '../../types';
+
+export type StorageBackendId = 'apps-script' | 'indexeddb' | 'memory';
+
+export interface UploadOptions {
+  /** Same id on a retry = continue a chunked upload where it stopped. */
+  uploadId?: string;
+  /** Base64 characters per request; larger payloads are chunked where the adapter supports it. Unset = one request. */
+  chunkSize?: number;
+  /** Base64 characters sent so far, out of the payload's total. */
+  onProgress?: (sent: number, total: number) => void;
+}
+
+/**
+ * Everything the UI needs from the document archive. Adapters translate it to a
+ * concrete service (Google Apps Script today; S3 or our own server later).
+ */
+export interface StorageBackend {
+  id: StorageBackendId;
+  label: string;
+  /** Goes over the network: searches are worth caching locally and can fail offline. */
+  remote: boolean;
+  /** Stores one page of a document. Several uploads with the same número/série add pages. */
+  upload(payload: UploadPayload, options?: UploadOptions): Promise<void>;
+  /** Documents whose número matches the query, pages grouped per document. */
+  search(query: string): Promise<ArchiveSearchResponse>;
+  /** Documents matching every filter of a structured query (série, date ranges, uploader...). */
+  find(query: SearchQuery): Promise<ArchiveSearchResponse>;
+  /** Autocomplete entries for a partial número. Never throws. */
+  suggest(query: string): Promise<SearchSuggestion[]>;
+  /** Removes every page stored for the document; throws unless the removal is confirmed. */
+  remove(numeroDoc: string, serie: string): Promise<void>;
+  /** All documents in the archive (intended for small/local archives and exports). */
+  list(): Promise<GroupedDoc[]>;
+}
@@ -1,10 +1,52 @@
 
+// Local image metrics computed before any AI call
+export interface ImageQuality {
+  sharpness: number; // Laplacian variance (higher = sharper)
+  brightness: number; // Mean luminance 0-255
+  contrast: number; // Luminance standard deviation
+  width: number;
+  height: number;
+  level: 'good' | 'fair' | 'poor';
+  issues: string[]; // Operator-facing reasons (pt-BR)
+}
+
+// Encoding of one output image (the one read by AI, or the one archived)
+export interface OutputProfile {
+  maxSide: number; // Longest side in pixels (never upscaled)
+  quality: number; // 0-1, lossy formats only
+  format: 'image/jpeg' | 'image/webp';
+  grayscale: boolean;
+}
+
+export interface OutputSettings {
+  ai: OutputProfile; // Sent to the extraction model: small and fast
+  archive: OutputProfile; // Sent to storage: legal copy of the signed document
+  pdfRenderScale: number; // PDF page rasterisation scale (1 = 72 dpi)
+  keepOriginalPdf: boolean; // Archive the uploaded PDF itself; rendered pages only feed preview and AI
+}
+
+// Why a request failed; network, timeout and server are transient and retried automatically
+export type ErrorCode = 'network' | 'timeout' | 'validation' | 'server' | 'quota' | 'unknown';
+
+export interface UploadSettings {
+  concurrency: number; // Items sent at the same time
+  chunkedUpload: boolean; // The deployed script accepts action=upload_chunk (see README); off by default
+  chunkSizeKb: number; // With chunkedUpload, larger pages go up in pieces of this size (base64), resumable after a failure
+  uploaderName: string; // Who is sending from this browser; stored with each page for search
+}
+
 export interface ProcessedImage {
-  base64: string; // Raw base64 string without prefix
-  previewUrl: string; // Data URL for display
+  blob: Blob; // AI image; base64 is only made when it is sent
+  thumbBlob: Blob; // Small copy for the batch grid
   width: number;
   height: number;
   sizeKb: number;
+  barcodeChave?: string; // Access key decoded locally from the DACTE barcode
+  imageHash?: string; // Perceptual hash (dHash, 16 hex chars) of the processed image
+  quality?: ImageQuality;
+  archiveBlob?: Blob; // Archival encoding; absent when it is the same as the AI image
+  detectedRotation?: number; // Rotation read from the text lines (only when asked and sure)
+  detectedCrop?: CropQuad; // Sheet edges found (only when asked)
 }
 
 export interface ExtractedData {
@@ -12,8 +54,13 @@ export interface ExtractedData {
   dataEmissao: string;
   serie: string;
   needsReview?: boolean; // New flag for AI confidence
+  chaveAcesso?: string; // 44-digit CT-e access key, digits only
+  reviewReasons?: string[]; // Why needsReview was raised locally (e.g. key mismatch)
+  source?: ExtractionSource; // Where the data came from
 }
 
+export type ExtractionSource = 'ai' | 'barcode' | 'xml' | 'ocr';
+
 export interface UploadPayload {
   ano: string;
   mes: string;
@@ -22,18 +69,8 @@ export interface UploadPayload {
   numeroDoc: string;
   mimeType: string;
   imagemBase64: string;
-}
-
-export interface SearchResult {
-  found: boolean;
-  message?: string;
-  images?: string[]; // Array of image URLs for multi-page/duplicate results
-  url_drive?: string; // Folder link or fallback link
-  docInfo?: {
-    numero: string;
-    serie: string;
-    data?: string;
-  }
+  imageHash?: string; // Perceptual hash, kept by the backend to spot the same photo re-sent
+  uploader?: string; // UploadSettings.uploaderName, when set
 }
 
 export interface SearchSuggestion {
@@ -42,20 +79,123 @@ export interface SearchSuggestion {
   label: string; // "CTE 12345 (Série 1)"
 }
 
+// A document as returned by the archive: all pages stored under one número
+export interface GroupedDoc {
+  id: string; // Número do CTE
+  serie: string;
+  pages: string[]; // Image URLs (or data URLs for the local backend)
+  dataEmissao?: string; // DD/MM/AAAA when the backend provides it
+  pageHashes?: string[]; // Perceptual hashes of the pages, when the backend stored them
+  pdfPages?: string[]; // Entries of `pages` that are whole PDF files, not images
+  uploadedAt?: string; // ISO timestamp of the latest page, when the backend provides it
+  uploader?: string; // Who sent the latest page, when the backend provides it
+}
+
+/**
+ * Structured archive search. Every field is optional and they all apply together (AND).
+ * Dates are ISO (AAAA-MM-DD, as date inputs give them) and ranges include both ends.
+ */
+export interface SearchQuery {
+  text?: string; // Free número search, same as the plain search box
+  numeroFrom?: string;
+  numeroTo?: string;
+  serie?: string;
+  emissaoFrom?: string;
+  emissaoTo?: string;
+  uploadedFrom?: string;
+  uploadedTo?: string;
+  uploader?: string; // Case-insensitive "contains"
+}
+
+export interface ArchiveSearchResponse {
+  docs: GroupedDoc[];
+  message?: string;
+  folderUrl?: string; // Link to the archive folder, when the backend has one
+}
+
+export type SearchStatus = 'found' | 'not_found' | 'error';
+// Where a response came from: the archive, a fresh local copy, or an old one because the archive was unreachable
+export type SearchSource = 'network' | 'cache' | 'offline';
+
+// Outcome of one lookup through the search service (services/search.ts), whatever the backend
+export interface SearchResponse {
+  status: SearchStatus; // 'error' = the lookup failed (connection...), not "not found"
+  docs: GroupedDoc[];
+  exact?: GroupedDoc; // The document whose número is exactly the one asked for
+  message: string;
+  folderUrl?: string;
+  errorCode?: ErrorCode; // Set when status is 'error'
+  source?: SearchSource;
+  cachedAt?: number; // Epoch ms of the local copy, when source is not 'network'
+}
+
+// A document opened before, as listed under "Vistos recentemente"
+export interface ViewedDocSummary {
+  doc: GroupedDoc;
+  thumbnail?: Blob;
+  viewedAt: number; // Epoch ms
+  availableOffline: boolean; // Its pages are saved in this browser
+}
+
 export type AppView = 'upload' | 'search' | 'settings';
 
 // BATCH UPLOAD SPECIFIC TYPES
 // Added 'paused' status to allow skipping specific items
 export type BatchItemStatus = 'processing_image' | 'pending_ai' | 'analyzing_ai' | 'ready' | 'queued' | 'paused' | 'uploading' | 'success' | 'error';
 
+export interface ArchiveCheck {
+  key: string; // número|série that was looked up
+  existingPages: number; // 0 = not archived yet
+}
+
+// 'replace' deletes the archived pages first; 'append' adds the new pages to them
+export type DuplicateAction = 'replace' | 'append';
+
+// Document corner on the original image, normalized 0..1
+export interface CropPoint {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type CropQuad = [CropPoint, CropPoint, CropPoint, CropPoint];
+
+// How the rotation baked into an image was chosen
+export type RotationSource = 'auto' | 'default' | 'manual';
+
+// Page 2..N of a document (page 1 lives on the BatchItem itself)
+export interface BatchPage {
+  id: string;
+  file: File; // Image file (PDF pages are rendered to JPEG)
+  previewUrl?: string; // Thumbnail object URL
+  imagesStored?: boolean; // Processed AI/archive images are in the blob store under this page id
+  rotation?: number; // 0, 90, 180, 270
+  appliedRotation?: number; // Rotation baked into the stored images (rotation is then 0)
+  imageHash?: string; // Set once the page is processed
+  sourcePdfId?: string; // Page (or item) whose PDF file this page was rendered from
+}
+
 export interface BatchItem {
   id: string;
   file: File;
-  previewUrl?: string; // If undefined, system will try to generate it (for PDFs)
-  base64?: string;
+  previewUrl?: string; // Thumbnail object URL. If undefined, the background generator makes one
+  imagesStored?: boolean; // Processed images of page 1 are in the blob store under the item id
   rotation?: number; // 0, 90, 180, 270
+  imageHash?: string; // Perceptual hash of page 1, set once processed
+  appliedRotation?: number; // Rotation baked into page 1 (the visual rotation resets to 0)
+  rotationSource?: RotationSource;
+  crop?: CropQuad; // Perspective crop of page 1 (original image coordinates)
+  cropSource?: 'auto' | 'manual'; // Unset = edge detection not run yet
+  quality?: ImageQuality; // Quality of page 1, set once processed
+  heldForQuality?: boolean; // Paused before AI because the photo is poor (retake suggested)
+  qualityOverride?: boolean; // Operator chose to analyse it anyway
+  extraPages?: BatchPage[]; // Additional pages uploaded under the same número/série
+  uploadedPageCount?: number; // Pages already sent (resume point after a failed upload)
+  archiveCheck?: ArchiveCheck; // Pre-upload lookup of this número/série in the archive
+  duplicateAction?: DuplicateAction; // Operator decision when the document is already archived
   data: ExtractedData;
   status: BatchItemStatus;
   errorMessage?: string;
-  uploadProgress?: number;
+  errorCode?: ErrorCode; // Set with errorMessage on a failed analysis or upload
+  uploadProgress?: number; // 0-100, bytes of this upload attempt already sent
 }
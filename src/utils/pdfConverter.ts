@@ -1,69 +1,162 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { getOutputSettings } from '../lib/outputProfiles';
 
 // Configure worker source to match the library version from ESM.sh
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
 
+// Intermediate JPEG only: the final encoding is done by the output profiles in processImage
+const PDF_RENDER_QUALITY = 0.92;
+// Archived PDFs are rasterised for on-screen viewing only (~1200px wide for an A4 page)
+const VIEWER_RENDER_SCALE = 2.0;
+
+type PdfDocument = Awaited<ReturnType<typeof pdfjsLib.getDocument>['promise']>;
+
+// PDF rasterisation stays on the page thread, unlike the image pipeline (imageWorkerPool): pdf.js
+// renders through its DOM canvas/font/filter factories. Pages are rendered one at a time, each
+// canvas and page freed right after, and the output goes through the worker pipeline like any photo.
+
+// Helper: Let the page handle input and paint between two PDF pages (rendering runs on this thread)
+const yieldToPage = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const loadPdf = async (source: Blob): Promise<PdfDocument> => {
+  const arrayBuffer = await source.arrayBuffer();
+
+  // Load the PDF document
+  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+  const pdf = await loadingTask.promise;
+
+  if (pdf.numPages === 0) {
+    pdf.destroy();
+    throw new Error('PDF is empty');
+  }
+  return pdf;
+};
+
+/**
+ * Renders one page (1-based) of an open PDF into a JPEG File object.
+ */
+const renderPageToJpeg = async (
+  pdf: PdfDocument,
+  pageNumber: number,
+  sourceName: string,
+  // Default 2.0 is the sweet spot for AI (~1200-1600px width, fast in the browser).
+  // Raise it in Configurações when the archive profile needs more resolution (3.0 = 2500px+, slow).
+  scale: number = getOutputSettings().pdfRenderScale
+): Promise<File> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+
+  // Prepare canvas
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw new Error('Canvas context not available');
+  }
+
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+
+  // Render PDF page into canvas context
+  const renderContext = {
+    canvasContext: context,
+    viewport: viewport
+  };
+
+  try {
+    await page.render(renderContext).promise;
+
+    // Convert to Blob/File
+    return await new Promise<File>((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          // Replace extension .pdf with .jpg (and tag extra pages)
+          const suffix = pageNumber > 1 ? `_p${pageNumber}` : '';
+          const newFileName = sourceName.replace(/\.pdf$/i, '') + `${suffix}.jpg`;
+          resolve(new File([blob], newFileName, { type: 'image/jpeg' }));
+        } else {
+          reject(new Error('Canvas to Blob conversion failed'));
+        }
+      }, 'image/jpeg', PDF_RENDER_QUALITY);
+    });
+  } finally {
+    // Free the page's render data and the canvas pixels right away, not at the next GC
+    page.cleanup();
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+};
+
 /**
  * Converts the first page of a PDF file to a JPEG File object.
  * @param file The PDF File object
  * @returns A Promise resolving to a JPEG File object
  */
 export const convertPdfToJpeg = async (file: File): Promise<File> => {
-  return new Promise(async (resolve, reject) => {
+  try {
+    const pdf = await loadPdf(file);
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Load the PDF document
-      const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-      const pdf = await loadingTask.promise;
-      
-      if (pdf.numPages === 0) {
-        throw new Error('PDF is empty');
-      }
+      return await renderPageToJpeg(pdf, 1, file.name);
+    } finally {
+      pdf.destroy();
+    }
+  } catch (error) {
+    console.error('PDF Conversion Error:', error);
+    throw error;
+  }
+};
 
-      // Get the first page
-      const page = await pdf.getPage(1);
-      
-      // Scale 2.0 is the sweet spot. 
-      // 3.0 was too slow (generating 2500px+ images). 
-      // 2.0 generates ~1200-1600px width which is perfect for Gemini Flash and fast for browser.
-      const scale = 2.0;
-      const viewport = page.getViewport({ scale });
-      
-      // Prepare canvas
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      
-      if (!context) {
-        throw new Error('Canvas context not available');
+/**
+ * Converts every page of a PDF file to JPEG File objects, in page order.
+ * @param file The PDF File object
+ * @returns A Promise resolving to one JPEG File per page
+ */
+export const convertPdfToJpegPages = async (file: File): Promise<File[]> => {
+  try {
+    const pdf = await loadPdf(file);
+    try {
+      const pages: File[] = [];
+      // Sequential on purpose: rendering pages in parallel multiplies canvas memory
+      for (let n = 1; n <= pdf.numPages; n++) {
+        if (n > 1) await yieldToPage();
+        pages.push(await renderPageToJpeg(pdf, n, file.name));
       }
-      
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-      
-      // Render PDF page into canvas context
-      const renderContext = {
-        canvasContext: context,
-        viewport: viewport
-      };
-      
-      await page.render(renderContext).promise;
-      
-      // Convert to Blob/File
-      canvas.toBlob((blob) => {
-        if (blob) {
-          // Replace extension .pdf with .jpg
-          const newFileName = file.name.replace(/\.pdf$/i, '.jpg');
-          const newFile = new File([blob], newFileName, { type: 'image/jpeg' });
-          resolve(newFile);
-        } else {
-          reject(new Error('Canvas to Blob conversion failed'));
-        }
-      }, 'image/jpeg', 0.80); 
-      
-    } catch (error) {
-      console.error('PDF Conversion Error:', error);
-      reject(error);
+      return pages;
+    } finally {
+      pdf.destroy();
+    }
+  } catch (error) {
+    console.error('PDF Conversion Error:', error);
+    throw error;
+  }
+};
+
+/**
+ * True when an archived page entry is a whole PDF file rather than an image.
+ */
+export const isPdfUrl = (url: string, pdfPages: string[] = []): boolean =>
+  pdfPages.includes(url) || url.startsWith('data:application/pdf') || /\.pdf($|\?)/i.test(url);
+
+/**
+ * Downloads an archived PDF and renders each page to a JPEG object URL, in page order.
+ * The caller owns the URLs and must revoke them.
+ */
+export const renderPdfUrlToImages = async (url: string): Promise<string[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP Error: ${response.status}`);
+
+  const pdf = await loadPdf(await response.blob());
+  const urls: string[] = [];
+  try {
+    for (let n = 1; n <= pdf.numPages; n++) {
+      if (n > 1) await yieldToPage();
+      urls.push(URL.createObjectURL(await renderPageToJpeg(pdf, n, 'arquivo.pdf', VIEWER_RENDER_SCALE)));
     }
-  });
-};
\ No newline at end of file
+    return urls;
+  } catch (error) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw error;
+  } finally {
+    pdf.destroy();
+  }
+};
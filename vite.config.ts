@@ -16,7 +16,12 @@ export default defineConfig(({ mode }) => {
     },
     define: {
       // Correctly stringify the API key to be replaced during build time
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // Archive backend: 'apps-script' (default), 'indexeddb' or 'memory'
+      'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+      'process.env.APPS_SCRIPT_URL': JSON.stringify(env.APPS_SCRIPT_URL),
+      // Extraction fallback chain, e.g. 'gemini,local-ocr' (default) or 'mock'
+      'process.env.EXTRACTION_PROVIDERS': JSON.stringify(env.EXTRACTION_PROVIDERS)
     }
   }
 })
\ No newline at end of file